@@ -36,6 +36,9 @@ export function Dashboard() {
     try {
       // Import the backtesting engine
       const { BacktestingEngine } = await import('@/lib/backtesting')
+      const { createNewsSource } = await import('@/lib/news')
+      const { loadMarketCalendar } = await import('@/lib/calendar')
+      const { createQuoteSource } = await import('@/lib/quotes')
       
       // Determine date range based on mode
       const startDate = backtestMode === 'single' ? singleSessionDate : backtestStartDate
@@ -47,7 +50,12 @@ export function Dashboard() {
         strategies,
         new Date(startDate),
         new Date(endDate),
-        backtestMode
+        backtestMode,
+        {
+          newsSource: createNewsSource(),
+          calendar: await loadMarketCalendar(),
+          quoteSource: createQuoteSource()
+        }
       )
 
       // Run the actual backtest
@@ -1,8 +1,9 @@
 'use client'
 
 import { useState } from 'react'
-import { Strategy, PerformanceMetrics } from '@/types/strategy'
+import { Strategy, PerformanceMetrics, BacktestResult } from '@/types/strategy'
 import { TrendingUp, TrendingDown, Target, AlertTriangle, BarChart3 } from 'lucide-react'
+import { describeFillTiming } from '@/lib/fillTiming'
 
 interface PerformanceTableProps {
   strategies: Strategy[]
@@ -251,6 +252,8 @@ export function PerformanceTable({ strategies, capital, backtestStartDate, backt
 
               const riskLevel = getRiskLevel(performance.maxDrawdown)
               const totalReturnValue = capital * (performance.totalReturn / 100)
+              const result = backtestResults?.results?.find((r: BacktestResult) => r.strategyId === strategy.id)
+              const fillTiming = result?.fillTiming
 
               return (
                 <tr key={strategy.id} className="border-b border-border hover:bg-muted/30 transition-colors">
@@ -258,6 +261,12 @@ export function PerformanceTable({ strategies, capital, backtestStartDate, backt
                     <div>
                       <div className="font-medium text-foreground">{strategy.name}</div>
                       <div className="text-sm text-muted-foreground">{strategy.tickers.length} tickers</div>
+                      {fillTiming && (
+                        <div className="text-xs text-muted-foreground">Fills: {describeFillTiming(fillTiming)}</div>
+                      )}
+                      {result?.latencyCost ? (
+                        <div className="text-xs text-muted-foreground">Latency cost: {formatCurrency(result.latencyCost)}</div>
+                      ) : null}
                     </div>
                   </td>
                   <td className="py-4 px-4 text-right">
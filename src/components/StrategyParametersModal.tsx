@@ -63,6 +63,7 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
 
   const isMicroscalping = strategy?.type === 'microscalping'
   const isMomentum = strategy?.type === 'momentum'
+  const isGapAndGo = strategy?.type === 'gap-and-go'
 
   if (!isOpen || !strategy) return null
 
@@ -145,6 +146,24 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
                     </p>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-1">
+                      Trade Direction
+                    </label>
+                    <select
+                      value={parameters.tradeDirection || 'long'}
+                      onChange={(e) => handleParameterChange('tradeDirection', e.target.value)}
+                      className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                    >
+                      <option value="both">Long & Short</option>
+                      <option value="long">Long Only</option>
+                      <option value="short">Short Only</option>
+                    </select>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Which entry signals to take. Short entries assume shares are available to borrow.
+                    </p>
+                  </div>
+
                   {isMicroscalping ? (
                     <>
                       <div>
@@ -344,7 +363,7 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
                     <>
                       <div>
                         <label className="block text-sm font-medium text-foreground mb-1">
-                          Stop = ATR(5m) × Multiplier
+                          Stop = ATR({parameters.stopLossATRTimeframe === 'daily' ? 'daily' : '5m'}) × Multiplier
                         </label>
                         <input
                           type="number"
@@ -360,6 +379,23 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
                         </p>
                       </div>
 
+                      <div>
+                        <label className="block text-sm font-medium text-foreground mb-1">
+                          Stop ATR Timeframe
+                        </label>
+                        <select
+                          value={parameters.stopLossATRTimeframe || 'intraday'}
+                          onChange={(e) => handleParameterChange('stopLossATRTimeframe', e.target.value)}
+                          className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                        >
+                          <option value="intraday">Intraday (5-minute)</option>
+                          <option value="daily">Daily (prior sessions)</option>
+                        </select>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Daily ATR gives wider stops that ignore intraday noise; it needs an extra daily-bar request per ticker.
+                        </p>
+                      </div>
+
                       <div>
                         <label className="block text-sm font-medium text-foreground mb-1">
                           Profit Mode
@@ -499,7 +535,7 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
                           step="0.1"
                         />
                         <p className="text-xs text-muted-foreground mt-1">
-                          Only enter if current 1-minute volume &gt; 1.3× average of last 5 mins — confirms active liquidity.
+                          Only enter if current 1-minute volume &gt; 1.3× the average for that minute over the last 10 sessions — confirms active liquidity.
                         </p>
                       </div>
 
@@ -513,14 +549,51 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
                           className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
                         >
                           <option value="vwap_cross">VWAP Cross (preferred)</option>
-                          <option value="break_high">Break of Last High + Spread Buffer</option>
-                          <option value="break_low">Break of Last Low + Spread Buffer</option>
+                          <option value="break_high">Break of Last High + Buffer</option>
+                          <option value="break_low">Break of Last Low + Buffer</option>
+                          <option value="vwap_band_fade">VWAP Band Fade</option>
                         </select>
                         <p className="text-xs text-muted-foreground mt-1">
                           VWAP cross is ideal for smart scalps. Break of high can be added for aggressive mode.
                         </p>
                       </div>
 
+                      <div>
+                        <label className="block text-sm font-medium text-foreground mb-1">
+                          Breakout Buffer ($)
+                        </label>
+                        <input
+                          type="number"
+                          value={parameters.entryConditions.breakoutBuffer ?? 0.01}
+                          onChange={(e) => handleNestedChange('entryConditions', 'breakoutBuffer', Number(e.target.value))}
+                          className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                          min="0"
+                          max="0.50"
+                          step="0.01"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          How far a close must clear the last high or low. Defaults to one tick.
+                        </p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-foreground mb-1">
+                          VWAP Band Width (SD)
+                        </label>
+                        <input
+                          type="number"
+                          value={parameters.entryConditions.vwapBandWidth || 2}
+                          onChange={(e) => handleNestedChange('entryConditions', 'vwapBandWidth', Number(e.target.value))}
+                          className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                          min="0.5"
+                          max="4"
+                          step="0.5"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Band fade enters when price closes back inside VWAP ± this many standard deviations.
+                        </p>
+                      </div>
+
                       <div>
                         <label className="block text-sm font-medium text-foreground mb-1">
                           Spread Filter (Max Spread $)
@@ -577,6 +650,26 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
                         </p>
                       </div>
 
+                      <div>
+                        <label className="block text-sm font-medium text-foreground mb-1">
+                          Opening Range Window
+                        </label>
+                        <select
+                          value={parameters.entryConditions.openingRangeMinutes || 15}
+                          onChange={(e) => handleNestedChange('entryConditions', 'openingRangeMinutes', Number(e.target.value))}
+                          className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                        >
+                          <option value={1}>1 minute</option>
+                          <option value={5}>5 minutes</option>
+                          <option value={15}>15 minutes</option>
+                          <option value={30}>30 minutes</option>
+                          <option value={60}>60 minutes</option>
+                        </select>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          High and low of the first minutes after the 9:30 open that an ORH break has to clear.
+                        </p>
+                      </div>
+
                       <div>
                         <label className="block text-sm font-medium text-foreground mb-1">
                           Minimum Range Expansion (% of ATR)
@@ -649,6 +742,45 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
                           Minimum price movement for entry
                         </p>
                       </div>
+
+                      {isGapAndGo && (
+                        <>
+                          <div>
+                            <label className="block text-sm font-medium text-foreground mb-1">
+                              Minimum Gap (%)
+                            </label>
+                            <input
+                              type="number"
+                              value={parameters.entryConditions.minGapPercent || 4}
+                              onChange={(e) => handleNestedChange('entryConditions', 'minGapPercent', Number(e.target.value))}
+                              className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                              min="1"
+                              max="50"
+                              step="0.5"
+                            />
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Open must gap at least this far above the prior session close.
+                            </p>
+                          </div>
+
+                          <div>
+                            <label className="block text-sm font-medium text-foreground mb-1">
+                              Minimum Pre-Market Volume
+                            </label>
+                            <input
+                              type="number"
+                              value={parameters.entryConditions.minPremarketVolume || 100000}
+                              onChange={(e) => handleNestedChange('entryConditions', 'minPremarketVolume', Number(e.target.value))}
+                              className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                              min="0"
+                              step="10000"
+                            />
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Shares traded before 9:30. Thin pre-market gaps tend to fade.
+                            </p>
+                          </div>
+                        </>
+                      )}
                     </>
                   )}
                 </div>
@@ -849,6 +981,24 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
                       )}
                     </>
                   )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-1">
+                      Move Stop to Breakeven at (R)
+                    </label>
+                    <input
+                      type="number"
+                      value={parameters.exitConditions.breakevenAtR ?? ''}
+                      onChange={(e) => handleNestedChange('exitConditions', 'breakevenAtR', e.target.value ? Number(e.target.value) : undefined)}
+                      className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                      min="0.5"
+                      max="5"
+                      step="0.5"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Once the trade is this many times its initial risk in profit, the bracket stop moves to the entry price. Leave empty to keep the original stop.
+                    </p>
+                  </div>
                 </div>
               </div>
 
@@ -913,22 +1063,90 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
                 <div className="space-y-4">
                   <div>
                     <label className="block text-sm font-medium text-foreground mb-1">
-                      Commission per Trade ($)
+                      Commission Model
                     </label>
-                    <input
-                      type="number"
-                      value={parameters.commissionPerTrade}
-                      onChange={(e) => handleParameterChange('commissionPerTrade', Number(e.target.value))}
+                    <select
+                      value={parameters.commission?.model || 'per_order'}
+                      onChange={(e) => handleNestedChange('commission', 'model', e.target.value)}
                       className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
-                      min="0"
-                      max="10"
-                      step="0.01"
-                    />
+                    >
+                      <option value="per_order">Flat per Order</option>
+                      <option value="per_share">Per Share (min / max)</option>
+                      <option value="tiered">Tiered by Monthly Volume</option>
+                    </select>
                     <p className="text-xs text-muted-foreground mt-1">
-                      Brokerage commission per trade
+                      Charged on every order, so a round trip pays it twice. Tiered uses IBKR Pro rates.
                     </p>
                   </div>
 
+                  {(parameters.commission?.model || 'per_order') === 'per_order' ? (
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-1">
+                        Commission per Order ($)
+                      </label>
+                      <input
+                        type="number"
+                        value={parameters.commissionPerTrade}
+                        onChange={(e) => handleParameterChange('commissionPerTrade', Number(e.target.value))}
+                        className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                        min="0"
+                        max="10"
+                        step="0.01"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Charged on every order, entries and exits each pay it. This used to be charged once per round trip, so halve older values to keep the same cost.
+                      </p>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-1">
+                        Minimum per Order ($)
+                      </label>
+                      <input
+                        type="number"
+                        value={parameters.commission?.minPerOrder ?? (parameters.commission?.model === 'tiered' ? 0.35 : 1)}
+                        onChange={(e) => handleNestedChange('commission', 'minPerOrder', Number(e.target.value))}
+                        className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                        min="0"
+                        max="10"
+                        step="0.01"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Capped at 1% of the order value.
+                      </p>
+                    </div>
+                  )}
+
+                  {parameters.commission?.model === 'per_share' && (
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-1">
+                        Commission per Share ($)
+                      </label>
+                      <input
+                        type="number"
+                        value={parameters.commission?.perShare ?? 0.005}
+                        onChange={(e) => handleNestedChange('commission', 'perShare', Number(e.target.value))}
+                        className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                        min="0"
+                        max="0.1"
+                        step="0.0005"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="regulatoryFees"
+                      checked={parameters.commission?.regulatoryFees !== false}
+                      onChange={(e) => handleNestedChange('commission', 'regulatoryFees', e.target.checked)}
+                      className="rounded border-border text-primary focus:ring-primary"
+                    />
+                    <label htmlFor="regulatoryFees" className="text-sm font-medium text-foreground">
+                      SEC Fee and FINRA TAF on Sells
+                    </label>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-foreground mb-1">
                       Slippage Buffer (%)
@@ -943,7 +1161,153 @@ export function StrategyParametersModal({ strategy, isOpen, onClose, onUpdate }:
                       step="0.01"
                     />
                     <p className="text-xs text-muted-foreground mt-1">
-                      Additional slippage buffer
+                      Minimum slippage charged on every fill, as a percentage of price
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-1">
+                      Slippage Model
+                    </label>
+                    <select
+                      value={parameters.slippageModel?.model || 'fixed_bps'}
+                      onChange={(e) => handleNestedChange('slippageModel', 'model', e.target.value)}
+                      className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                    >
+                      <option value="fixed_bps">Fixed (5 bps per fill)</option>
+                      <option value="percent_of_spread">Half the Bid/Ask Spread (fills at mid)</option>
+                      <option value="square_root">Square-Root Market Impact</option>
+                    </select>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Charged on every fill, entries and exits alike. Market impact grows with order size relative to the bar&apos;s volume and range.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-1">
+                      Fill Timing
+                    </label>
+                    <select
+                      value={parameters.fillTiming?.mode || 'next_bar_open'}
+                      onChange={(e) => handleNestedChange('fillTiming', 'mode', e.target.value)}
+                      className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                    >
+                      <option value="next_bar_open">Next-Bar Open</option>
+                      <option value="next_bar_vwap">Next-Bar VWAP</option>
+                      <option value="latency">Decision + Routing Latency</option>
+                      <option value="same_bar_close">Same-Bar Close (look-ahead)</option>
+                    </select>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Signals are read on a bar&apos;s close, so filling on that same close can&apos;t be done live.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-1">
+                      Stop/Target Same Bar
+                    </label>
+                    <select
+                      value={parameters.intrabarRule || 'pessimistic'}
+                      onChange={(e) => handleParameterChange('intrabarRule', e.target.value)}
+                      className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                    >
+                      <option value="pessimistic">Stop First (pessimistic)</option>
+                      <option value="optimistic">Target First (optimistic)</option>
+                      <option value="tick">Second Bars (falls back to stop first)</option>
+                    </select>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Decides which exit fills when one minute bar touches both the stop and the target.
+                    </p>
+                  </div>
+
+                  {parameters.fillTiming?.mode === 'latency' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-foreground mb-1">
+                          Decision (ms)
+                        </label>
+                        <input
+                          type="number"
+                          value={parameters.fillTiming.decisionLatencyMs ?? 250}
+                          onChange={(e) => handleNestedChange('fillTiming', 'decisionLatencyMs', Number(e.target.value))}
+                          className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                          min="0"
+                          max="60000"
+                          step="50"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-foreground mb-1">
+                          Routing (ms)
+                        </label>
+                        <input
+                          type="number"
+                          value={parameters.fillTiming.routingLatencyMs ?? 1000}
+                          onChange={(e) => handleNestedChange('fillTiming', 'routingLatencyMs', Number(e.target.value))}
+                          className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                          min="0"
+                          max="60000"
+                          step="50"
+                        />
+                      </div>
+                      <p className="col-span-2 text-xs text-muted-foreground">
+                        Orders fill at the second-level price when they reach the exchange after the signal bar closes. Compare 1s and 5s to see how much of a scalp&apos;s edge survives.
+                      </p>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-1">
+                      Entry Order Type
+                    </label>
+                    <select
+                      value={parameters.entryOrder?.type || 'market'}
+                      onChange={(e) => handleNestedChange('entryOrder', 'type', e.target.value)}
+                      className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                    >
+                      <option value="market">Market</option>
+                      <option value="limit">Limit (passive)</option>
+                      <option value="stop">Stop</option>
+                      <option value="stop_limit">Stop-Limit</option>
+                    </select>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Limits rest at the signal price and may never fill; stops wait for price to trade a tick through it.
+                    </p>
+                  </div>
+
+                  {parameters.entryOrder?.type && parameters.entryOrder.type !== 'market' && (
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-1">
+                        Cancel Unfilled After (bars)
+                      </label>
+                      <input
+                        type="number"
+                        value={parameters.entryOrder.expireAfterBars ?? ''}
+                        onChange={(e) => handleNestedChange('entryOrder', 'expireAfterBars', e.target.value ? Number(e.target.value) : undefined)}
+                        className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                        min="1"
+                        max="60"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Leave empty to work the order until the end of the day
+                      </p>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-1">
+                      Max Volume Participation (%)
+                    </label>
+                    <input
+                      type="number"
+                      value={parameters.maxVolumeParticipation ?? 10}
+                      onChange={(e) => handleParameterChange('maxVolumeParticipation', Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+                      min="1"
+                      max="100"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Share of each bar&apos;s volume an entry can fill; larger orders fill over several bars
                     </p>
                   </div>
                 </div>
@@ -1,6 +1,141 @@
 // Backtesting engine for trading strategies
 import { PolygonBar } from './polygon'
-import { Strategy, StrategyParameters, BacktestResult, Trade, EquityPoint, PerformanceMetrics } from '@/types/strategy'
+import { Strategy, StrategyParameters, BacktestResult, SkippedSignalCounts, RiskEvent, Trade, TradeFill, TradeSide, ExitReason, IntrabarRule, EquityPoint, FillTiming, OrderEvent, PerformanceMetrics } from '@/types/strategy'
+import { applyParameterDefaults, getStrategyModule, StrategyDayContext, StrategyModule } from './strategies'
+import { NewsEvent, NewsSource, isWithinNewsWindow } from './news'
+import { Quote, QuoteSource } from './quotes'
+import { calculateOrderFees, getCommissionSchedule } from './commissions'
+import { calculateSlippage, DEFAULT_SLIPPAGE_MODEL } from './slippage'
+import { calculateLatencyCost, getFillTiming, getLatencyMs } from './fillTiming'
+import {
+  addBracketTarget,
+  Bracket,
+  cancelOrder,
+  createBracket,
+  createOrder,
+  createOrderEvent,
+  DEFAULT_MAX_PARTICIPATION,
+  executeOrder,
+  ExecutionWindow,
+  fillBracketLeg,
+  isOrderWorking,
+  modifyOrder,
+  Order,
+  roundToTick
+} from './orders'
+import { calculateDailyATR, calculateEMASeries, createIndicatorFilter, calculateIntradayATRSeries, calculateSessionVWAPSeries } from './indicators'
+import { calculateOpeningRange, DEFAULT_OPENING_RANGE_MINUTES } from './entryTriggers'
+import { buildMinuteVolumeProfile, calculateRelativeVolumeSeries, DEFAULT_RELATIVE_VOLUME_LOOKBACK, MinuteVolumeProfile } from './relativeVolume'
+import { getSessionClose, isTradingDay, MarketCalendar, NYSE_CALENDAR, TRADING_DAYS_PER_YEAR } from './calendar'
+import {
+  formatClockTime,
+  getCalendarDateKeys,
+  getExchangeDateKey,
+  getExchangeMinuteOfDay,
+  groupBarsByExchangeDate,
+  isWithinSession,
+  parseClockTime,
+  REGULAR_SESSION_CLOSE,
+  REGULAR_SESSION_OPEN
+} from './marketHours'
+
+// Calendar days fetched ahead of the start date so the first day has a prior close
+const PRIOR_SESSION_LOOKBACK_DAYS = 5
+// Calendar days of daily bars fetched ahead of the start date for the daily ATR
+const DAILY_ATR_LOOKBACK_DAYS = 30
+
+// ATR used for stops and VWAP extension: ATR(14) on 5-minute bars
+const ATR_PERIOD = 14
+const ATR_TIMEFRAME_MINUTES = 5
+
+// forceExitAtSessionEnd flattens this many minutes before the close (15:55, or 12:55 on half-days)
+const FORCE_EXIT_MINUTES_BEFORE_CLOSE = 5
+
+// Spread assumed for fills when no quote is available
+const MODELLED_SPREAD = 0.01
+
+// Bars are minute aggregates; decisions are made at a bar's close
+const BAR_DURATION_MS = 60 * 1000
+
+// First scale-out target, in multiples of the initial stop distance
+const PARTIAL_TARGET_R = 2
+
+// Stop entries trigger this far through the signal close unless configured
+const DEFAULT_STOP_OFFSET = 0.01
+
+export interface BacktestEngineOptions {
+  newsSource?: NewsSource
+  intrabarRule?: IntrabarRule // for strategies that don't set one, defaults to pessimistic (stop first)
+  calendar?: MarketCalendar // defaults to the bundled NYSE calendar
+  quoteSource?: QuoteSource // NBBO quotes for the maxSpread filter and bid/ask fills
+}
+
+interface ExitSignal {
+  reason: ExitReason
+  price?: number // trigger fill price; omitted means the bar close
+  leg?: 'stop' | 'target' // bracket order that filled; omitted means a market exit
+}
+
+// Bookkeeping carried across the days of one strategy's run
+interface StrategyRunState {
+  skippedSignals: SkippedSignalCounts
+  riskEvents: RiskEvent[]
+  peakEquity: number // highest marked-to-market equity so far
+  halted: boolean // max drawdown kill switch fired; no more trading
+}
+
+// Account shared by every ticker of a strategy during a day
+// Shorts tie up their entry notional just like longs (no leverage)
+interface PortfolioState {
+  cash: number // buying power not committed to open positions
+  equity: number // start-of-day equity plus realized P&L, used for sizing
+}
+
+// An entry order still working, with the buying power held for its unfilled shares
+interface PendingEntry {
+  order: Order
+  side: TradeSide
+  reservedPrice: number // per share, the price the order was sized at
+  decisionIndex: number // bar whose close produced the signal
+  events: OrderEvent[] // becomes the trade's order history once it fills
+}
+
+// Market exit decided on a bar's close, filled once it reaches the market per the fill timing
+interface PendingExit {
+  reason: ExitReason
+  decisionIndex: number
+}
+
+// Where a delayed order first meets the market
+interface DelayedWindow {
+  index: number // bar the order arrives during
+  window: ExecutionWindow // what is left of that bar from the arrival on
+  arrival: number // when the order reaches the market, for the NBBO it meets
+}
+
+// One ticker's day inside the portfolio event loop
+interface TickerSession {
+  context: StrategyDayContext
+  barIndex: Map<number, number> // bar timestamp -> index into context.bars
+  trailLevels: number[]
+  indicatorFilter: (index: number) => boolean // entryConditions.technicalIndicators
+  position: Trade | null
+  entryOrder: PendingEntry | null
+  bracket: Bracket | null // stop and target working for the open position
+  entryWindow: PolygonBar | null // what the entry bar traded after a delayed fill; null after a same-bar-close fill
+  pendingExit: PendingExit | null
+  tradeCount: number // entries taken today
+  lastBar: PolygonBar | null // latest in-session bar seen on the shared clock
+}
+
+// Everything fetched for one ticker ahead of the simulation
+interface TickerDataset {
+  bars: PolygonBar[] // minute bars including extended hours
+  barsByDay: Map<string, PolygonBar[]> // the same bars keyed by exchange-time date
+  volumeProfile: MinuteVolumeProfile // per-minute volumes for the relative volume baseline
+  dailyBars: PolygonBar[]
+  news: NewsEvent[]
+}
 
 export class BacktestingEngine {
   private capital: number
@@ -9,13 +144,30 @@ export class BacktestingEngine {
   private endDate: Date
   private mode: 'single' | 'multi'
   private seed: number
+  private newsSource?: NewsSource
+  private intrabarRule: IntrabarRule
+  private calendar: MarketCalendar
+  private quoteSource?: QuoteSource
+  private monthlyShareVolume = new Map<string, number>() // "YYYY-MM" -> shares traded, for tiered commissions
+  private secondBarCache = new Map<string, PolygonBar[]>() // "TICKER-minuteStart" -> second aggregates
 
-  constructor(capital: number, strategies: Strategy[], startDate: Date, endDate: Date, mode: 'single' | 'multi' = 'multi') {
+  constructor(
+    capital: number,
+    strategies: Strategy[],
+    startDate: Date,
+    endDate: Date,
+    mode: 'single' | 'multi' = 'multi',
+    options: BacktestEngineOptions = {}
+  ) {
     this.capital = capital
     this.strategies = strategies
     this.startDate = startDate
     this.endDate = endDate
     this.mode = mode
+    this.newsSource = options.newsSource
+    this.intrabarRule = options.intrabarRule || 'pessimistic'
+    this.calendar = options.calendar || NYSE_CALENDAR
+    this.quoteSource = options.quoteSource
     // Create a deterministic seed based on parameters
     this.seed = this.createSeed()
   }
@@ -44,7 +196,7 @@ export class BacktestingEngine {
 
     for (const strategy of this.strategies) {
       console.log(`Backtesting strategy: ${strategy.name} (${strategy.tickers.length} tickers)`)
-      const result = await this.backtestStrategy(strategy)
+      const result = await this.backtestStrategy({ ...strategy, parameters: applyParameterDefaults(strategy.type, strategy.parameters) })
       console.log(`Strategy ${strategy.name} result:`, result.performance)
       results.push(result)
     }
@@ -56,16 +208,24 @@ export class BacktestingEngine {
     console.log(`Starting real backtest for ${strategy.name} with ${strategy.tickers.length} tickers...`)
     
     try {
-      // Fetch real data for all tickers
-      const tickerData = new Map<string, PolygonBar[]>()
+      // Fetch real data for all tickers, reaching back far enough for the relative volume baseline
+      const tickerData = new Map<string, TickerDataset>()
+      const lookbackSessions = strategy.parameters.entryConditions?.relativeVolumeLookback || DEFAULT_RELATIVE_VOLUME_LOOKBACK
+      const lookbackDays = PRIOR_SESSION_LOOKBACK_DAYS + Math.ceil(lookbackSessions * 7 / 5)
       
       console.log(`Fetching data for ${strategy.tickers.length} tickers...`)
       for (const ticker of strategy.tickers) {
         console.log(`Fetching data for ${ticker}...`)
-        const data = await this.fetchTickerData(ticker)
+        const data = await this.fetchTickerData(ticker, lookbackDays)
         if (data.length > 0) {
-          tickerData.set(ticker, data)
           console.log(`Got ${data.length} bars for ${ticker}`)
+          const dailyBars = strategy.parameters.stopLossATRTimeframe === 'daily' ? await this.fetchDailyData(ticker) : []
+          const news = await this.fetchTickerNews(ticker)
+          if (this.newsSource) {
+            console.log(`Got ${news.length} news events for ${ticker}`)
+          }
+          const barsByDay = groupBarsByExchangeDate(data)
+          tickerData.set(ticker, { bars: data, barsByDay, volumeProfile: buildMinuteVolumeProfile(barsByDay), dailyBars, news })
         } else {
           console.log(`No data received for ${ticker}`)
         }
@@ -91,19 +251,26 @@ export class BacktestingEngine {
     }
   }
 
-  private async performRealBacktest(strategy: Strategy, tickerData: Map<string, PolygonBar[]>): Promise<BacktestResult> {
+  private async performRealBacktest(strategy: Strategy, tickerData: Map<string, TickerDataset>): Promise<BacktestResult> {
     console.log(`Performing real backtest for ${strategy.name}`)
     
     const trades: Trade[] = []
     const equityCurve: EquityPoint[] = []
     let currentEquity = this.capital
+    this.monthlyShareVolume.clear()
+    const run: StrategyRunState = {
+      skippedSignals: { maxDailyTrades: 0, maxTradesPerSymbol: 0, maxPositions: 0, maxSpread: 0 },
+      riskEvents: [],
+      peakEquity: this.capital,
+      halted: false
+    }
     
     // Generate all trading days in the date range
     const tradingDays = this.getTradingDays()
     console.log(`Trading ${tradingDays.length} days from ${this.startDate.toISOString().split('T')[0]} to ${this.endDate.toISOString().split('T')[0]}`)
     
-    for (const date of tradingDays) {
-      const dayTrades = await this.simulateTradingDay(strategy, tickerData, date, currentEquity)
+    for (const dayKey of tradingDays) {
+      const dayTrades = await this.simulateTradingDay(strategy, tickerData, dayKey, currentEquity, run)
       trades.push(...dayTrades)
       
       // Update equity based on day's trades
@@ -111,12 +278,12 @@ export class BacktestingEngine {
       currentEquity += dayPnL
       
       equityCurve.push({
-        date: new Date(date),
+        date: new Date(dayKey),
         equity: currentEquity,
         return: ((currentEquity - this.capital) / this.capital) * 100
       })
       
-      console.log(`Day ${date.toISOString().split('T')[0]}: ${dayTrades.length} trades, P&L: $${dayPnL.toFixed(2)}, Equity: $${currentEquity.toFixed(2)}`)
+      console.log(`Day ${dayKey}: ${dayTrades.length} trades, P&L: $${dayPnL.toFixed(2)}, Equity: $${currentEquity.toFixed(2)}`)
     }
     
     // Calculate performance metrics
@@ -127,6 +294,10 @@ export class BacktestingEngine {
     console.log(`- Total P&L: $${performance.totalReturn.toFixed(2)}`)
     console.log(`- Win rate: ${performance.winRate.toFixed(1)}%`)
     console.log(`- Max drawdown: ${performance.maxDrawdown.toFixed(1)}%`)
+    console.log(`- Skipped signals:`, run.skippedSignals)
+    console.log(`- Risk events: ${run.riskEvents.length}${run.halted ? ' (halted by max drawdown)' : ''}`)
+    const latencyCost = calculateLatencyCost(trades)
+    console.log(`- Latency cost vs. decision prices: $${latencyCost.toFixed(2)}`)
     
     return {
       strategyId: strategy.id,
@@ -137,14 +308,21 @@ export class BacktestingEngine {
       trades,
       equityCurve,
       drawdownCurve: this.calculateDrawdownCurve(equityCurve),
-      monthlyReturns: this.calculateMonthlyReturns(trades)
+      monthlyReturns: this.calculateMonthlyReturns(trades),
+      fillTiming: getFillTiming(strategy.parameters),
+      latencyCost,
+      skippedSignals: run.skippedSignals,
+      riskEvents: run.riskEvents
     }
   }
 
-  private async fetchTickerData(ticker: string): Promise<PolygonBar[]> {
+  private async fetchTickerData(ticker: string, lookbackDays: number): Promise<PolygonBar[]> {
     try {
       const { fetchMinuteData } = await import('./polygon')
-      const data = await fetchMinuteData(ticker, this.startDate.toISOString().split('T')[0], this.endDate.toISOString().split('T')[0])
+      // Start early so prior closes and volume baselines are available; bars include extended hours
+      const from = new Date(this.startDate)
+      from.setDate(from.getDate() - lookbackDays)
+      const data = await fetchMinuteData(ticker, from.toISOString().split('T')[0], this.endDate.toISOString().split('T')[0])
       return data
     } catch (error) {
       console.error(`Failed to fetch data for ${ticker}:`, error)
@@ -152,301 +330,1136 @@ export class BacktestingEngine {
     }
   }
 
+  private async fetchDailyData(ticker: string): Promise<PolygonBar[]> {
+    try {
+      const { fetchMinuteData } = await import('./polygon')
+      const from = new Date(this.startDate)
+      from.setDate(from.getDate() - DAILY_ATR_LOOKBACK_DAYS)
+      return await fetchMinuteData(ticker, from.toISOString().split('T')[0], this.endDate.toISOString().split('T')[0], 1, 'day')
+    } catch (error) {
+      console.error(`Failed to fetch daily data for ${ticker}:`, error)
+      return []
+    }
+  }
+
+  private async fetchTickerNews(ticker: string): Promise<NewsEvent[]> {
+    if (!this.newsSource) return []
+
+    try {
+      const to = new Date(this.endDate)
+      to.setDate(to.getDate() + 1) // include events on the final day
+      return await this.newsSource.getEvents(ticker, this.startDate, to)
+    } catch (error) {
+      console.error(`Failed to fetch news for ${ticker}:`, error)
+      return []
+    }
+  }
+
   private async simulateTradingDay(
     strategy: Strategy,
-    tickerData: Map<string, PolygonBar[]>,
-    date: Date,
-    currentEquity: number
+    tickerData: Map<string, TickerDataset>,
+    dayKey: string,
+    currentEquity: number,
+    run: StrategyRunState
   ): Promise<Trade[]> {
     const trades: Trade[] = []
     const params = strategy.parameters
+    const { skippedSignals } = run
 
-    // Check if market is open
-    if (!this.isMarketOpen(date, params.tradingHours)) {
+    // Check if market is open, and that the kill switch hasn't stopped the strategy
+    if (run.halted || !this.isMarketOpen(dayKey)) {
       return trades
     }
 
-    const dateStr = date.toISOString().split('T')[0]
-    console.log(`Simulating trading day: ${dateStr}`)
+    const strategyModule = getStrategyModule(strategy.type)
+    if (!strategyModule) {
+      console.warn(`No strategy module registered for ${strategy.type}`)
+      return trades
+    }
 
-    // Simulate minute-by-minute trading
-    for (const [ticker, data] of tickerData.entries()) {
-      const dayData = this.getDayData(data, date)
-      console.log(`Day data for ${ticker} on ${dateStr}: ${dayData.length} bars`)
-      if (dayData.length === 0) continue
+    console.log(`Simulating trading day: ${dayKey}`)
 
-      const dayTrades = this.simulateTickerTrading(
-        strategy,
-        ticker,
-        dayData,
-        currentEquity
-      )
+    const sessions = this.buildTickerSessions(strategyModule, params, tickerData, dayKey)
+    const portfolio: PortfolioState = { cash: currentEquity, equity: currentEquity }
+    const maxPositions = params.maxPositions || 1
+    const maxDailyTrades = params.maxDailyTrades || Infinity
+    const maxTradesPerSymbol = params.maxTradesPerSymbol || Infinity
+    let dailyTradeCount = 0
+    let dailyLossHit = false
+    const scalesOut = params.takeProfitMode === 'partial_trail'
+    let peakOpenPositions = 0
+    // Off the same-bar close, market orders decided on a bar reach the market on the next one
+    const fillTiming = getFillTiming(params)
+    const delayed = fillTiming.mode !== 'same_bar_close'
 
-      console.log(`Generated ${dayTrades.length} trades for ${ticker}`)
-      trades.push(...dayTrades)
+    // Step every ticker through one shared clock so they compete for the same capital
+    // Only bars inside the trading window are traded; the rest is context for the strategies
+    const tradingWindow = this.getTradingWindow(params, dayKey)
+    const timestamps = Array.from(new Set(sessions.flatMap(session => session.context.bars
+      .filter(bar => isWithinSession(bar.t, tradingWindow))
+      .map(bar => bar.t))))
+      .sort((a, b) => a - b)
+
+    for (const timestamp of timestamps) {
+      const active = sessions.filter(session => session.barIndex.has(timestamp))
+      active.forEach(session => {
+        session.lastBar = session.context.bars[session.barIndex.get(timestamp)!]
+      })
+
+      // Exits first so capital freed this minute can be redeployed
+      for (const session of active) {
+        const position = session.position
+        if (!position) continue
+
+        const i = session.barIndex.get(timestamp)!
+        const bar = session.context.bars[i]
+
+        // A market exit decided on an earlier bar fills when it reaches the market, ahead of this bar's stops and targets
+        const pendingExit = session.pendingExit
+        if (pendingExit) {
+          const delayedExit = await this.getDelayedWindow(session, pendingExit.decisionIndex, fillTiming)
+          if (delayedExit && delayedExit.index > i) continue
+          const quote = delayedExit ? await this.getArrivalQuote(position.ticker, delayedExit, fillTiming) : null
+          const trade = this.exitPosition(session, portfolio, pendingExit.reason, bar, delayedExit?.window.o ?? bar.o, quote)
+          this.stampDecisionPrice(trade, session.context.params, session.context.bars[pendingExit.decisionIndex])
+          trades.push(trade)
+          continue
+        }
+
+        const exit = await this.shouldExit(strategyModule, session, position, i)
+        if (!exit) continue
+
+        // Triggered levels are resting orders and fill off the level
+        if (exit.price === undefined && delayed) {
+          session.pendingExit = { reason: exit.reason, decisionIndex: i }
+          continue
+        }
+        // Market exits at the bar close take the live bid/ask
+        const quote = exit.price === undefined ? await this.getQuote(position.ticker, bar) : null
+        trades.push(this.exitPosition(session, portfolio, exit.reason, bar, exit.price, quote, exit.leg))
+      }
+
+      // Risk limits are checked on marked-to-market equity at this minute's closes
+      const markedEquity = this.getMarkedEquity(portfolio, sessions)
+      run.peakEquity = Math.max(run.peakEquity, markedEquity)
+
+      const drawdownPercent = ((run.peakEquity - markedEquity) / run.peakEquity) * 100
+      if (params.maxDrawdown > 0 && drawdownPercent >= params.maxDrawdown) {
+        run.halted = true
+        run.riskEvents.push({ type: 'max_drawdown', time: new Date(timestamp), equity: markedEquity, value: drawdownPercent })
+        console.log(`Max drawdown kill switch at ${new Date(timestamp).toISOString()}: ${drawdownPercent.toFixed(2)}%`)
+        break
+      }
+
+      const dayLoss = currentEquity - markedEquity
+      if (!dailyLossHit && params.maxDailyLoss && dayLoss >= params.maxDailyLoss) {
+        dailyLossHit = true
+        run.riskEvents.push({ type: 'daily_loss_limit', time: new Date(timestamp), equity: markedEquity, value: dayLoss })
+        console.log(`Daily loss limit hit at ${new Date(timestamp).toISOString()}: -$${dayLoss.toFixed(2)}`)
+      }
+
+      // Resting entry orders work against this bar before any new signals
+      for (const session of active) {
+        const entry = session.entryOrder
+        if (!entry) continue
+
+        if (dailyLossHit) {
+          this.releaseEntryOrder(session, portfolio, 'cancelled')
+          continue
+        }
+        const i = session.barIndex.get(timestamp)!
+        // A delayed order starts working from the moment it reaches the market
+        if (entry.order.barsWorked === 0) {
+          const delayedEntry = await this.getDelayedWindow(session, entry.decisionIndex, fillTiming)
+          if (delayedEntry && delayedEntry.index > i) continue
+          const quote = delayedEntry ? await this.getArrivalQuote(session.context.ticker, delayedEntry, fillTiming) : null
+          const decisionBar = session.context.bars[entry.decisionIndex]
+          if (this.fillEntryOrder(session, i, portfolio, quote, delayedEntry?.window, false, decisionBar)) dailyTradeCount++
+        } else if (this.fillEntryOrder(session, i, portfolio, null)) {
+          dailyTradeCount++
+        }
+
+        // The exits above ran before this fill, so the stop and target get the rest of the fill window now
+        const opened = session.position
+        if (opened && session.entryWindow && opened.entryTime.getTime() === timestamp) {
+          const exit = await this.checkBracket(session, opened, session.entryWindow)
+          if (exit) trades.push(this.exitPosition(session, portfolio, exit.reason, session.context.bars[i], exit.price, null, exit.leg))
+        }
+
+        const expireAfterBars = params.entryOrder?.expireAfterBars
+        if (session.entryOrder && expireAfterBars && entry.order.barsWorked >= expireAfterBars) {
+          this.releaseEntryOrder(session, portfolio, 'expired')
+        }
+      }
+
+      // Entries in ticker order while limits, slots and buying power allow
+      for (const session of active) {
+        if (session.position || session.entryOrder || dailyLossHit) continue
+
+        const i = session.barIndex.get(timestamp)!
+        const side: TradeSide | null = this.shouldEnter(strategyModule, session, i)
+        if (!side) continue
+
+        // Unfilled entry orders hold their place against the daily limit
+        const pendingEntries = sessions.filter(s => s.entryOrder && !s.position).length
+        if (dailyTradeCount + pendingEntries >= maxDailyTrades) {
+          skippedSignals.maxDailyTrades++
+          continue
+        }
+        if (session.tradeCount >= maxTradesPerSymbol) {
+          skippedSignals.maxTradesPerSymbol++
+          continue
+        }
+        if (sessions.filter(s => s.position || s.entryOrder).length >= maxPositions) {
+          skippedSignals.maxPositions++
+          continue
+        }
+
+        // Live spread at the signal, when quotes are loaded
+        const quote = await this.getQuote(session.context.ticker, session.context.bars[i])
+        const maxSpread = params.entryConditions?.maxSpread
+        if (quote && maxSpread && quote.ask - quote.bid > maxSpread) {
+          skippedSignals.maxSpread++
+          continue
+        }
+
+        session.entryOrder = this.submitEntryOrder(session.context, side, i, portfolio, quote)
+        if (!session.entryOrder || delayed) continue
+
+        // On the same-bar close, market and marketable orders execute at the signal against the prevailing bid/ask
+        const reference = this.calculateFillPrice(session.context.params, session.context.bars[i].c, session.entryOrder.order.side, quote)
+        const window: ExecutionWindow = { o: reference, h: reference, l: reference, v: session.context.bars[i].v }
+        if (this.fillEntryOrder(session, i, portfolio, quote, window, true)) dailyTradeCount++
+      }
+
+      peakOpenPositions = Math.max(peakOpenPositions, sessions.filter(session => session.position).length)
+
+      for (const session of active) {
+        const position = session.position
+        if (!position || session.pendingExit) continue
+
+        const i = session.barIndex.get(timestamp)!
+        const bar = session.context.bars[i]
+
+        // Scale out at the first target, leaving the rest to the trailing stop
+        const partialFill = scalesOut ? this.takePartialProfit(session, bar) : null
+        if (partialFill) {
+          this.releaseCash(portfolio, position, partialFill)
+          // Stop adding to a trade once it has started scaling out
+          if (session.entryOrder) this.releaseEntryOrder(session, portfolio, 'cancelled')
+          this.recordBracketExit(session, 'target')
+        }
+
+        // Ratchet the trailing stop with this bar; it takes effect from the next bar
+        if (this.isTrailing(position, params)) {
+          this.updateTrailingStop(position, params, bar, session.trailLevels[i])
+        }
+        this.adjustBracketStop(session, bar)
+      }
+    }
+
+    // Day orders expire with the trading window
+    for (const session of sessions) {
+      if (session.entryOrder) this.releaseEntryOrder(session, portfolio, 'expired')
+    }
+
+    // Close any remaining positions at the end of trading hours, or flatten at once when halted
+    const sessionClose = parseClockTime(getSessionClose(this.calendar, dayKey))
+    for (const session of sessions) {
+      const { position, lastBar } = session
+      if (!position || !lastBar) continue
+
+      // An exit already on its way keeps its decision bar; otherwise the decision is the last bar's close
+      const reason = session.pendingExit?.reason ?? (run.halted ? 'kill_switch' : 'time_exit')
+      const decisionIndex = session.pendingExit?.decisionIndex ?? session.barIndex.get(lastBar.t)!
+      // A late flatten still has to fill before the close; past it, the last in-session bar takes it
+      const lastSessionIndex = this.findLastIndexBefore(session.context.bars, sessionClose)
+      const delayedExit = delayed ? await this.getDelayedWindow(session, decisionIndex, fillTiming, lastSessionIndex) : null
+      if (delayedExit) {
+        const quote = await this.getArrivalQuote(position.ticker, delayedExit, fillTiming)
+        const trade = this.exitPosition(session, portfolio, reason, session.context.bars[delayedExit.index], delayedExit.window.o, quote)
+        this.stampDecisionPrice(trade, session.context.params, session.context.bars[decisionIndex])
+        trades.push(trade)
+      } else {
+        trades.push(this.exitPosition(session, portfolio, reason, lastBar, undefined, await this.getQuote(position.ticker, lastBar)))
+      }
     }
 
-    console.log(`Total trades for ${dateStr}: ${trades.length}`)
+    trades.sort((a, b) => a.entryTime.getTime() - b.entryTime.getTime())
+    console.log(`Total trades for ${dayKey}: ${trades.length} across ${sessions.length} tickers, peak open positions: ${peakOpenPositions}`)
     return trades
   }
 
-  private simulateTickerTrading(
-    strategy: Strategy,
+  private buildTickerSessions(
+    strategyModule: StrategyModule,
+    params: StrategyParameters,
+    tickerData: Map<string, TickerDataset>,
+    dayKey: string
+  ): TickerSession[] {
+    const sessions: TickerSession[] = []
+    const usesTrailLevels = params.exitConditions?.trailingStop || params.takeProfitMode === 'partial_trail'
+
+    for (const [ticker, dataset] of tickerData.entries()) {
+      const dayData = this.getDayData(dataset, dayKey)
+      if (dayData.length === 0) continue
+
+      const baseContext = this.buildDayContext(params, ticker, dayKey, dataset, dayData)
+      const context: StrategyDayContext = { ...baseContext, state: strategyModule.setupDay(baseContext) }
+      sessions.push({
+        context,
+        barIndex: new Map(dayData.map((bar, i) => [bar.t, i])),
+        trailLevels: usesTrailLevels ? this.getTrailLevels(context) : [],
+        indicatorFilter: createIndicatorFilter(params.entryConditions?.technicalIndicators || [], dayData, context.vwap),
+        position: null,
+        entryOrder: null,
+        bracket: null,
+        entryWindow: null,
+        pendingExit: null,
+        tradeCount: 0,
+        lastBar: null
+      })
+    }
+    return sessions
+  }
+
+  private buildDayContext(
+    params: StrategyParameters,
     ticker: string,
-    dayData: PolygonBar[],
-    currentEquity: number
-  ): Trade[] {
-    const trades: Trade[] = []
-    const params = strategy.parameters
-    let position: Trade | null = null
+    dayKey: string,
+    dataset: TickerDataset,
+    dayData: PolygonBar[]
+  ): Omit<StrategyDayContext, 'state'> {
+    const regularOpen = parseClockTime(REGULAR_SESSION_OPEN)
+    const premarketBars = dayData.filter(bar => getExchangeMinuteOfDay(bar.t) < regularOpen)
+    const sessionVWAP = calculateSessionVWAPSeries(dayData, premarketBars.length)
+    const openingRangeMinutes = params.entryConditions?.openingRangeMinutes || DEFAULT_OPENING_RANGE_MINUTES
 
-    for (let i = 0; i < dayData.length; i++) {
-      const bar = dayData[i]
-      const time = new Date(bar.t)
+    return {
+      ticker,
+      date: new Date(dayKey),
+      bars: dayData,
+      premarketBars,
+      previousClose: this.getPreviousClose(dataset.bars, dayData[0].t),
+      news: this.getDayNews(dataset.news, dayData),
+      vwap: sessionVWAP.map(point => point.vwap),
+      vwapStdDev: sessionVWAP.map(point => point.stdDev),
+      openingRange: calculateOpeningRange(dayData, openingRangeMinutes),
+      relativeVolume: calculateRelativeVolumeSeries(
+        dataset.volumeProfile,
+        dayKey,
+        dayData,
+        params.entryConditions?.relativeVolumeLookback || DEFAULT_RELATIVE_VOLUME_LOOKBACK
+      ),
+      atr: calculateIntradayATRSeries(dayData, ATR_PERIOD, ATR_TIMEFRAME_MINUTES),
+      // Only sessions that finished before this day count toward the daily ATR
+      dailyATR: calculateDailyATR(dataset.dailyBars.filter(bar => getExchangeDateKey(bar.t) < dayKey), ATR_PERIOD),
+      params
+    }
+  }
 
-      // Check for entry signals
-      if (!position && this.shouldEnter(strategy, dayData, i)) {
-        const positionSize = this.calculatePositionSize(currentEquity, params.positionSize || 20, bar.c)
-        const entryPrice = this.calculateEntryPrice(bar, 'buy')
-        
-        position = {
-          id: `${ticker}-${time.getTime()}`,
-          ticker,
-          entryTime: time,
-          exitTime: time, // Will be updated on exit
-          entryPrice,
-          exitPrice: 0, // Will be updated on exit
-          quantity: positionSize,
-          pnl: 0, // Will be calculated on exit
-          pnlPercent: 0, // Will be calculated on exit
-          fees: params.commissionPerTrade || 0.001,
-          slippage: this.calculateSlippage(entryPrice, positionSize),
-          reason: 'time_exit', // Will be updated on exit
-          holdTime: 0 // Will be calculated on exit
+  // Size an entry order off the price it is expected to fill at, holding that much buying power
+  private submitEntryOrder(
+    context: StrategyDayContext,
+    side: TradeSide,
+    index: number,
+    portfolio: PortfolioState,
+    quote: Quote | null
+  ): PendingEntry | null {
+    const { ticker, params } = context
+    const bar = context.bars[index]
+    const settings = params.entryOrder || { type: 'market' }
+    const orderSide = side === 'long' ? 'buy' : 'sell'
+    const direction = side === 'long' ? 1 : -1
+
+    // Limits rest on the passive side of the signal close; stops wait for price to move through it
+    const usesStop = settings.type === 'stop' || settings.type === 'stop_limit'
+    const stopPrice = usesStop ? bar.c + direction * (settings.stopOffset ?? DEFAULT_STOP_OFFSET) : undefined
+    let limitPrice: number | undefined
+    if (settings.type === 'limit') {
+      limitPrice = bar.c - direction * (settings.limitOffset || 0)
+    } else if (settings.type === 'stop_limit') {
+      limitPrice = (stopPrice as number) + direction * (settings.limitOffset || 0)
+    }
+
+    const order = createOrder(`${ticker}-${bar.t}-entry`, ticker, {
+      side: orderSide,
+      type: settings.type,
+      quantity: 0,
+      limitPrice,
+      stopPrice,
+      timeInForce: settings.timeInForce
+    }, bar.t)
+
+    const reservedPrice = order.limitPrice ??
+      (order.stopPrice !== undefined ? this.calculateFillPrice(params, order.stopPrice, orderSide) : this.calculateFillPrice(params, bar.c, orderSide, quote))
+    const { stopPrice: plannedStop } = this.calculateExitLevels(params, side, reservedPrice, this.getStopATR(context, index))
+    order.quantity = this.calculatePositionSize(portfolio, params, reservedPrice, plannedStop)
+    if (order.quantity <= 0) return null
+
+    portfolio.cash -= reservedPrice * order.quantity
+    return { order, side, reservedPrice, decisionIndex: index, events: [createOrderEvent(order, 'entry', 'submitted', bar.t)] }
+  }
+
+  // Work the session's entry order against the bar, or the part of it the order can reach;
+  // true when its first fill opened a position
+  private fillEntryOrder(
+    session: TickerSession,
+    index: number,
+    portfolio: PortfolioState,
+    quote: Quote | null,
+    window: ExecutionWindow = session.context.bars[index],
+    quoted = false, // window prices are already the bid/ask
+    decisionBar?: PolygonBar // set when a delayed order first reaches the market
+  ): boolean {
+    const entry = session.entryOrder as PendingEntry
+    const { context } = session
+    const bar = context.bars[index]
+    const execution = executeOrder(entry.order, window, context.params.maxVolumeParticipation || DEFAULT_MAX_PARTICIPATION)
+
+    let opened = false
+    if (execution) {
+      // Market and stop orders cross the spread unless the window was priced off the quote;
+      // the quote is the one a market order met on arrival, so a stop triggered later crosses the modelled spread
+      const takesLiquidity = !quoted && (entry.order.type === 'market' || entry.order.type === 'stop')
+      const crossed = entry.order.type === 'market' ? quote : null
+      const price = takesLiquidity ? this.calculateFillPrice(context.params, execution.price, entry.order.side, crossed) : execution.price
+      // Limit orders resting in the book fill at their price with no market impact
+      const passive = !quoted && !takesLiquidity
+      portfolio.cash += (entry.reservedPrice - price) * execution.quantity
+      const filled = entry.order.filledQuantity >= entry.order.quantity
+      entry.events.push(createOrderEvent(entry.order, 'entry', filled ? 'filled' : 'partially_filled', bar.t, { price, quantity: execution.quantity }))
+
+      if (session.position) {
+        this.recordEntryFill(session.position, context.params, bar, price, execution.quantity, quote, passive)
+        this.resizeBracket(session, bar.t)
+      } else {
+        session.position = this.openPosition(context, entry.side, index, price, execution.quantity, quote, entry.events, passive)
+        session.bracket = this.attachBracket(session.position, context.params, bar.t)
+        // A fill on the close leaves nothing of the bar to trade; any other fill trades the rest of its window
+        session.entryWindow = getFillTiming(context.params).mode === 'same_bar_close' ? null : { ...bar, ...window }
+        session.tradeCount++
+        opened = true
+      }
+      if (decisionBar && entry.order.type === 'market') this.stampDecisionPrice(session.position, context.params, decisionBar)
+    }
+
+    if (!isOrderWorking(entry.order)) this.releaseEntryOrder(session, portfolio)
+    return opened
+  }
+
+  // Close what is left of the position and book the trade against the account
+  private exitPosition(
+    session: TickerSession,
+    portfolio: PortfolioState,
+    reason: ExitReason,
+    bar: PolygonBar,
+    price?: number,
+    quote: Quote | null = null,
+    leg?: 'stop' | 'target'
+  ): Trade {
+    const position = session.position as Trade
+    position.reason = reason
+    this.closePosition(position, session.context.params, bar, price, quote, leg === 'target')
+    if (session.entryOrder) this.releaseEntryOrder(session, portfolio, 'cancelled')
+    this.recordBracketExit(session, leg)
+    this.settlePosition(portfolio, position)
+    session.position = null
+    session.pendingExit = null
+    return position
+  }
+
+  // Where an order sent on the close of bar `decisionIndex` first trades, or null when no bar up to `lastIndex` is left
+  private async getDelayedWindow(
+    session: TickerSession,
+    decisionIndex: number,
+    timing: FillTiming,
+    lastIndex: number = session.context.bars.length - 1
+  ): Promise<DelayedWindow | null> {
+    const bars = session.context.bars
+    // Decision plus routing latency can carry the order past the next minute
+    const arrival = bars[decisionIndex].t + BAR_DURATION_MS + getLatencyMs(timing)
+    let index = decisionIndex + 1
+    while (index <= lastIndex && bars[index].t + BAR_DURATION_MS <= arrival) index++
+    if (index > lastIndex) return null
+    const bar = bars[index]
+    const reached = Math.max(arrival, bar.t)
+
+    switch (timing.mode) {
+      case 'next_bar_vwap':
+        return { index, window: { ...bar, o: bar.vw ?? (bar.h + bar.l + bar.c) / 3 }, arrival: reached }
+      case 'latency': {
+        // Reprice off the second aggregates that print from the arrival on; without them the open printed
+        // before the order arrived, so the close is the only price known to come after it
+        const seconds = (await this.fetchSecondBars(session.context.ticker, bar.t)).filter(second => second.t >= arrival)
+        if (seconds.length === 0) {
+          return { index, window: arrival <= bar.t ? bar : { o: bar.c, h: bar.c, l: bar.c, v: bar.v }, arrival: reached }
+        }
+        return {
+          index,
+          window: {
+            o: seconds[0].o,
+            h: Math.max(...seconds.map(second => second.h)),
+            l: Math.min(...seconds.map(second => second.l)),
+            v: seconds.reduce((sum, second) => sum + second.v, 0)
+          },
+          arrival: reached
         }
       }
+      default:
+        return { index, window: bar, arrival: reached }
+    }
+  }
 
-      // Check for exit signals
-      if (position && this.shouldExit(strategy, position, bar, time)) {
-        const exitPrice = this.calculateEntryPrice(bar, 'sell')
-        const holdTime = (time.getTime() - position.entryTime.getTime()) / (1000 * 60)
-        
-        position.exitTime = time
-        position.exitPrice = exitPrice
-        position.holdTime = holdTime
-        position.pnl = (exitPrice - position.entryPrice) * position.quantity - position.fees - position.slippage
-        position.pnlPercent = (position.pnl / (position.entryPrice * position.quantity)) * 100
-
-        trades.push(position)
-        position = null
+  // NBBO a delayed market order meets on arrival; a VWAP fill is spread over the bar, so it keeps the
+  // quoted spread centred on the VWAP instead
+  private async getArrivalQuote(ticker: string, delayed: DelayedWindow, timing: FillTiming): Promise<Quote | null> {
+    const quote = await this.getQuoteAt(ticker, delayed.arrival)
+    if (!quote || timing.mode !== 'next_bar_vwap') return quote
+    const halfSpread = (quote.ask - quote.bid) / 2
+    return { ...quote, bid: delayed.window.o - halfSpread, ask: delayed.window.o + halfSpread }
+  }
+
+  // Record where the same-bar close would have filled the market order that just filled late
+  private stampDecisionPrice(position: Trade, params: StrategyParameters, decisionBar: PolygonBar): void {
+    const fill = position.fills[position.fills.length - 1]
+    const isBuy = (position.side === 'long') === (fill.action === 'entry')
+    fill.decisionPrice = this.calculateFillPrice(params, decisionBar.c, isBuy ? 'buy' : 'sell')
+  }
+
+  // Stop working the entry order and hand back the buying power held for its unfilled shares
+  private releaseEntryOrder(session: TickerSession, portfolio: PortfolioState, status?: 'cancelled' | 'expired'): void {
+    const entry = session.entryOrder as PendingEntry
+    if (status) {
+      cancelOrder(entry.order, status)
+      entry.events.push(createOrderEvent(entry.order, 'entry', status, session.lastBar?.t ?? entry.order.submittedAt))
+    }
+    portfolio.cash += (entry.order.quantity - entry.order.filledQuantity) * entry.reservedPrice
+    session.entryOrder = null
+  }
+
+  private openPosition(
+    context: StrategyDayContext,
+    side: TradeSide,
+    index: number,
+    entryPrice: number,
+    quantity: number,
+    quote: Quote | null,
+    orders: OrderEvent[],
+    passive: boolean
+  ): Trade {
+    const { ticker, params } = context
+    const bar = context.bars[index]
+    const time = new Date(bar.t)
+    const exitLevels = this.calculateExitLevels(params, side, entryPrice, this.getStopATR(context, index))
+
+    const position: Trade = {
+      id: `${ticker}-${time.getTime()}`,
+      ticker,
+      side,
+      entryTime: time,
+      exitTime: time, // Will be updated on exit
+      entryPrice,
+      exitPrice: 0, // Will be updated on exit
+      quantity: 0, // Grows with each entry fill
+      pnl: 0, // Will be calculated on exit
+      pnlPercent: 0, // Will be calculated on exit
+      fees: 0, // Accumulated per fill
+      slippage: 0, // Accumulated per fill
+      reason: 'time_exit', // Will be updated on exit
+      holdTime: 0, // Will be calculated on exit
+      ...exitLevels,
+      fills: [],
+      orders,
+      peakPrice: entryPrice
+    }
+    this.recordEntryFill(position, params, bar, entryPrice, quantity, quote, passive)
+    return position
+  }
+
+  // Partial fills of the entry order add to the position at its average price
+  private recordEntryFill(
+    position: Trade,
+    params: StrategyParameters,
+    bar: PolygonBar,
+    price: number,
+    quantity: number,
+    quote: Quote | null,
+    passive: boolean
+  ): void {
+    const fill: TradeFill = { time: new Date(bar.t), action: 'entry', price, quantity }
+    position.entryPrice = (position.entryPrice * position.quantity + price * quantity) / (position.quantity + quantity)
+    position.quantity += quantity
+    position.fills.push(fill)
+    this.chargeFees(position, fill, params)
+    if (passive) {
+      fill.slippage = 0
+    } else {
+      this.chargeSlippage(position, fill, params, bar, quote)
+    }
+  }
+
+  // Stop and target go out with the first entry fill; a scale-out target is only part of the position
+  private attachBracket(position: Trade, params: StrategyParameters, time: number): Bracket {
+    const targetQuantity = this.getTargetQuantity(position, params)
+    const bracket = createBracket(
+      position.id,
+      position.ticker,
+      position.side === 'long' ? 'buy' : 'sell',
+      position.quantity,
+      position.stopPrice,
+      targetQuantity > 0 ? { price: position.targetPrice, quantity: targetQuantity } : null,
+      time
+    )
+    position.orders.push(createOrderEvent(bracket.stop, 'stop', 'submitted', time))
+    if (bracket.target) position.orders.push(createOrderEvent(bracket.target, 'target', 'submitted', time))
+    return bracket
+  }
+
+  // Shares the target order covers: the whole position, or the scale-out piece when scaling out
+  private getTargetQuantity(position: Trade, params: StrategyParameters): number {
+    if (params.takeProfitMode !== 'partial_trail') return position.quantity
+    const quantity = Math.floor(position.quantity * (params.partialTakePercent || 50) / 100)
+    return quantity < position.quantity ? quantity : 0
+  }
+
+  // Later entry fills grow the bracket with the position, placing the scale-out once it comes to a whole share
+  private resizeBracket(session: TickerSession, time: number): void {
+    const { position, bracket } = session
+    if (!position || !bracket) return
+
+    if (modifyOrder(bracket.stop, { quantity: position.quantity })) {
+      position.orders.push(createOrderEvent(bracket.stop, 'stop', 'modified', time, undefined, 'entry fill'))
+    }
+    const targetQuantity = this.getTargetQuantity(position, session.context.params)
+    if (targetQuantity <= 0) return
+    if (!bracket.target) {
+      const target = addBracketTarget(bracket, position.id, { price: position.targetPrice, quantity: targetQuantity }, time)
+      position.orders.push(createOrderEvent(target, 'target', 'submitted', time))
+    } else if (modifyOrder(bracket.target, { quantity: targetQuantity })) {
+      position.orders.push(createOrderEvent(bracket.target, 'target', 'modified', time, undefined, 'entry fill'))
+    }
+  }
+
+  // Book the latest exit fill against the bracket: one of its legs, or a market exit that cancels both
+  private recordBracketExit(session: TickerSession, leg?: 'stop' | 'target'): void {
+    const { position, bracket } = session
+    if (!position) return
+
+    const fill = position.fills[position.fills.length - 1]
+    const time = fill.time.getTime()
+    const execution = { price: fill.price, quantity: fill.quantity }
+    const order = leg && bracket ? bracket[leg] : null
+
+    if (bracket && order) {
+      const cancelled = fillBracketLeg(bracket, leg as 'stop' | 'target', fill.quantity)
+      position.orders.push(createOrderEvent(order, leg as 'stop' | 'target', order.status === 'filled' ? 'filled' : 'partially_filled', time, execution))
+      if (cancelled) {
+        position.orders.push(createOrderEvent(cancelled, cancelled === bracket.stop ? 'stop' : 'target', 'cancelled', time, undefined, 'oco'))
+      } else if (leg === 'target' && isOrderWorking(bracket.stop)) {
+        position.orders.push(createOrderEvent(bracket.stop, 'stop', 'modified', time, undefined, 'scale out'))
+      }
+    } else {
+      const exitOrder = createOrder(`${position.id}-exit-${time}`, position.ticker, {
+        side: position.side === 'long' ? 'sell' : 'buy',
+        type: 'market',
+        quantity: fill.quantity
+      }, time)
+      position.orders.push(createOrderEvent(exitOrder, 'exit', 'filled', time, execution, fill.reason))
+      for (const working of [bracket?.stop, bracket?.target]) {
+        if (working && isOrderWorking(working)) {
+          cancelOrder(working)
+          position.orders.push(createOrderEvent(working, working === bracket?.stop ? 'stop' : 'target', 'cancelled', time, undefined, fill.reason))
+        }
       }
     }
 
-    // Close any remaining position at market close
-    if (position) {
-      const lastBar = dayData[dayData.length - 1]
-      const exitPrice = this.calculateEntryPrice(lastBar, 'sell')
-      const holdTime = (lastBar.t - position.entryTime.getTime()) / (1000 * 60)
-      
-      position.exitTime = new Date(lastBar.t)
-      position.exitPrice = exitPrice
-      position.holdTime = holdTime
-      position.pnl = (exitPrice - position.entryPrice) * position.quantity - position.fees - position.slippage
-      position.pnlPercent = (position.pnl / (position.entryPrice * position.quantity)) * 100
-      position.reason = 'time_exit'
+    // The bracket stays with the position until it is flat
+    if (this.getOpenQuantity(position) <= 0) session.bracket = null
+  }
+
+  // Move the working stop up to the trailing level or to breakeven, whichever is tighter; effective from the next bar
+  private adjustBracketStop(session: TickerSession, bar: PolygonBar): void {
+    const { position, bracket, context } = session
+    if (!position || !bracket || !isOrderWorking(bracket.stop)) return
 
-      trades.push(position)
+    const params = context.params
+    const isLong = position.side === 'long'
+    const direction = isLong ? 1 : -1
+    const current = bracket.stop.stopPrice as number
+    const tighter = (level: number) => (isLong ? level > current : level < current) && (isLong ? level < bar.c : level > bar.c)
+
+    let candidate: { price: number; note: string } | null = null
+    if (this.isTrailing(position, params) && position.trailingStopPrice !== undefined && tighter(position.trailingStopPrice)) {
+      candidate = { price: position.trailingStopPrice, note: 'trailing' }
     }
 
-    return trades
+    // Breakeven once the trade has run the configured multiple of its initial risk since the fill
+    const breakevenAtR = params.exitConditions?.breakevenAtR
+    const risk = Math.abs(position.entryPrice - position.stopPrice)
+    const breakeven = roundToTick(position.entryPrice)
+    const trigger = position.entryPrice + direction * (breakevenAtR || 0) * risk
+    const window = this.getExitWindow(session, bar)
+    const reached = window !== null && (isLong ? window.h >= trigger : window.l <= trigger)
+    if (breakevenAtR && risk > 0 && reached && tighter(breakeven) &&
+        (!candidate || (isLong ? breakeven > candidate.price : breakeven < candidate.price))) {
+      candidate = { price: breakeven, note: 'breakeven' }
+    }
+
+    if (candidate && modifyOrder(bracket.stop, { stopPrice: candidate.price })) {
+      position.orders.push(createOrderEvent(bracket.stop, 'stop', 'modified', bar.t, undefined, candidate.note))
+    }
   }
 
-  private shouldEnter(strategy: Strategy, data: PolygonBar[], index: number): boolean {
-    if (index < 20) return false // Need enough data for indicators
+  // ATR the stop multiplier applies to: the intraday series, or the prior sessions' daily ATR
+  private getStopATR(context: StrategyDayContext, index: number): number {
+    return context.params.stopLossATRTimeframe === 'daily' ? context.dailyATR ?? 0 : context.atr[index]
+  }
 
-    const params = strategy.parameters
+  private calculateExitLevels(
+    params: StrategyParameters,
+    side: TradeSide,
+    entryPrice: number,
+    atr: number
+  ): { stopPrice: number; targetPrice: number } {
+    const direction = side === 'long' ? 1 : -1
+
+    // Dollar stops take precedence, then ATR multiples, then the legacy percentage
+    let stopPrice: number
+    if (params.stopLossDollar) {
+      stopPrice = entryPrice - direction * params.stopLossDollar
+    } else if (params.stopLossATR && atr > 0) {
+      stopPrice = entryPrice - direction * params.stopLossATR * atr
+    } else {
+      stopPrice = entryPrice * (1 - direction * (params.stopLoss || 2) / 100)
+    }
+
+    // Scaling out takes the first piece at a multiple of the risk instead of the fixed target
+    let targetPrice: number
+    if (params.takeProfitMode === 'partial_trail') {
+      targetPrice = entryPrice + direction * PARTIAL_TARGET_R * Math.abs(entryPrice - stopPrice)
+    } else if (params.takeProfitDollar) {
+      targetPrice = entryPrice + direction * params.takeProfitDollar
+    } else {
+      targetPrice = entryPrice * (1 + direction * (params.takeProfit || 3) / 100)
+    }
+
+    return { stopPrice: roundToTick(stopPrice), targetPrice: roundToTick(targetPrice) }
+  }
+
+  private getOpenQuantity(position: Trade): number {
+    return position.fills.reduce((open, fill) => open + (fill.action === 'entry' ? fill.quantity : -fill.quantity), 0)
+  }
+
+  private recordExitFill(
+    position: Trade,
+    params: StrategyParameters,
+    bar: PolygonBar,
+    quantity: number,
+    reason: TradeFill['reason'],
+    triggerPrice?: number,
+    quote: Quote | null = null,
+    passive = false // a limit order filling at its price: no spread to cross and nothing to slip
+  ): TradeFill {
+    // Longs exit with a sell, shorts buy to cover; stop and market exits cross the spread
+    const price = passive && triggerPrice !== undefined
+      ? triggerPrice
+      : this.calculateFillPrice(params, triggerPrice ?? bar.c, position.side === 'long' ? 'sell' : 'buy', quote)
+    const fill: TradeFill = { time: new Date(bar.t), action: 'exit', price, quantity, reason }
+    position.fills.push(fill)
+    this.chargeFees(position, fill, params)
+    if (passive) {
+      fill.slippage = 0
+    } else {
+      this.chargeSlippage(position, fill, params, bar, quote)
+    }
+    return fill
+  }
+
+  // Commission and regulatory fees for one order, recorded on the fill and totalled on the trade
+  private chargeFees(position: Trade, fill: TradeFill, params: StrategyParameters): void {
+    const month = getExchangeDateKey(fill.time.getTime()).slice(0, 7)
+    const monthlyShares = this.monthlyShareVolume.get(month) || 0
+    // Long exits and short entries are the sells
+    const isSell = (position.side === 'long') === (fill.action === 'exit')
+
+    fill.fees = calculateOrderFees(getCommissionSchedule(params), { shares: fill.quantity, price: fill.price, isSell, time: fill.time.getTime() }, monthlyShares)
+    position.fees += fill.fees
+    this.monthlyShareVolume.set(month, monthlyShares + fill.quantity)
+  }
+
+  // Return an exit leg's capital: the cost basis back plus (or minus) its P&L
+  private releaseCash(portfolio: PortfolioState, position: Trade, fill: TradeFill): void {
+    const direction = position.side === 'long' ? 1 : -1
+    portfolio.cash += (position.entryPrice + (fill.price - position.entryPrice) * direction) * fill.quantity
+  }
+
+  // Cash plus open positions valued at their latest close, net of their costs
+  private getMarkedEquity(portfolio: PortfolioState, sessions: TickerSession[]): number {
+    return sessions.reduce((equity, { position, entryOrder, lastBar }) => {
+      // Buying power held for unfilled entry orders still belongs to the account
+      if (entryOrder) equity += (entryOrder.order.quantity - entryOrder.order.filledQuantity) * entryOrder.reservedPrice
+      if (!position || !lastBar) return equity
+      const direction = position.side === 'long' ? 1 : -1
+      const value = (position.entryPrice + (lastBar.c - position.entryPrice) * direction) * this.getOpenQuantity(position)
+      return equity + value - position.fees - position.slippage
+    }, portfolio.cash)
+  }
+
+  // Book a closed trade against the shared account
+  private settlePosition(portfolio: PortfolioState, position: Trade): void {
+    this.releaseCash(portfolio, position, position.fills[position.fills.length - 1])
+    portfolio.cash -= position.fees + position.slippage
+    portfolio.equity += position.pnl
+  }
+
+  // The scale-out target is the bracket's limit order for part of the position
+  private takePartialProfit(session: TickerSession, bar: PolygonBar): TradeFill | null {
+    const { position, bracket, context } = session
+    const target = bracket?.target
+    if (!position || !target || bracket.oco || !isOrderWorking(target)) return null
+    const window = this.getExitWindow(session, bar)
+    if (!window) return null
+
+    const isLong = position.side === 'long'
+    const level = target.limitPrice as number
+    if (isLong ? window.h < level : window.l > level) return null
+
+    const quantity = target.quantity - target.filledQuantity
+    if (quantity <= 0 || quantity >= this.getOpenQuantity(position)) return null
+
+    return this.recordExitFill(position, context.params, bar, quantity, 'partial_take_profit', this.getLevelFill(window, level, !isLong), null, true)
+  }
+
+  // Modelled slippage for one fill, recorded on the fill and totalled on the trade
+  private chargeSlippage(position: Trade, fill: TradeFill, params: StrategyParameters, bar: PolygonBar, quote: Quote | null): void {
+    fill.slippage = calculateSlippage(params.slippageModel || DEFAULT_SLIPPAGE_MODEL, {
+      shares: fill.quantity,
+      price: fill.price,
+      spread: quote ? quote.ask - quote.bid : MODELLED_SPREAD,
+      barVolume: bar.v,
+      barRange: bar.h - bar.l
+    }, params.slippageBuffer || 0)
+    position.slippage += fill.slippage
+  }
+
+  private closePosition(
+    position: Trade,
+    params: StrategyParameters,
+    bar: PolygonBar,
+    triggerPrice?: number,
+    quote: Quote | null = null,
+    passive = false
+  ): void {
+    this.recordExitFill(position, params, bar, this.getOpenQuantity(position), position.reason, triggerPrice, quote, passive)
+
+    // Roll every exit leg up into the trade's totals
+    const exitFills = position.fills.filter(fill => fill.action === 'exit')
+    const exitQuantity = exitFills.reduce((sum, fill) => sum + fill.quantity, 0)
+    const direction = position.side === 'long' ? 1 : -1
+    const grossPnl = exitFills.reduce((sum, fill) => sum + (fill.price - position.entryPrice) * fill.quantity * direction, 0)
+
+    position.exitTime = new Date(bar.t)
+    position.exitPrice = exitFills.reduce((sum, fill) => sum + fill.price * fill.quantity, 0) / exitQuantity
+    position.holdTime = (bar.t - position.entryTime.getTime()) / (1000 * 60)
+    position.pnl = grossPnl - position.fees - position.slippage
+    position.pnlPercent = (position.pnl / (position.entryPrice * position.quantity)) * 100
+  }
+
+  private isTrailing(position: Trade, params: StrategyParameters): boolean {
+    // Once a scale-out has happened the remainder is always trailed
+    return params.exitConditions?.trailingStop ||
+      position.fills.some(fill => fill.reason === 'partial_take_profit')
+  }
+
+  private shouldEnter(strategyModule: StrategyModule, session: TickerSession, index: number): TradeSide | null {
+    if (index < strategyModule.warmupBars) return null // Need enough data for indicators
+
+    const { context } = session
+    const { params, bars: data } = context
     const currentBar = data[index]
 
     // Volume check
     if (currentBar.v < (params.entryConditions?.volumeThreshold || 100000)) {
-      return false
+      return null
+    }
+
+    // Relative volume against the same minute of prior sessions; without a baseline there is nothing to compare
+    const minRelativeVolume = params.entryConditions?.relativeVolume
+    const relativeVolume = context.relativeVolume[index]
+    if (minRelativeVolume && !Number.isNaN(relativeVolume) && relativeVolume < minRelativeVolume) {
+      return null
     }
 
     // Price change check
     const priceChange = (currentBar.c - data[index - 1].c) / data[index - 1].c
     if (Math.abs(priceChange) < (params.entryConditions?.priceChangeThreshold || 0.1) / 100) {
-      return false
+      return null
     }
 
-    // Strategy-specific entry logic
-    switch (strategy.type) {
-      case 'microscalping':
-        return this.microscalpingEntry(data, index)
-      case 'momentum':
-        return this.momentumEntry(data, index)
-      case 'mean-reversion':
-        return this.meanReversionEntry(data, index)
-      default:
-        return false
+    // Sit out the window around headlines unless the strategy trades the news itself
+    if (!strategyModule.tradesNews && params.avoidNewsMinutes > 0 &&
+        isWithinNewsWindow(context.news, currentBar.t, params.avoidNewsMinutes)) {
+      return null
     }
-  }
 
-  private shouldExit(strategy: Strategy, position: Trade, currentBar: PolygonBar, currentTime: Date): boolean {
-    const params = strategy.parameters
-    const currentPrice = currentBar.c
-    const entryPrice = position.entryPrice
+    // Every configured indicator condition must hold
+    if (!session.indicatorFilter(index)) {
+      return null
+    }
 
-    // Stop loss
-    const stopLossPrice = entryPrice * (1 - (params.stopLoss || 2) / 100)
-    if (currentPrice <= stopLossPrice) {
-      position.reason = 'stop_loss'
-      return true
+    // Strategy-specific entry logic, limited to the sides the strategy is allowed to trade (long only unless set)
+    const side = strategyModule.shouldEnter(context, index)
+    const direction = params.tradeDirection || 'long'
+    if (!side || (direction !== 'both' && direction !== side)) {
+      return null
     }
 
-    // Take profit
-    const takeProfitPrice = entryPrice * (1 + (params.takeProfit || 3) / 100)
-    if (currentPrice >= takeProfitPrice) {
-      position.reason = 'take_profit'
-      return true
+    // Skip entries stretched too far from VWAP in the trade's direction, measured in ATRs
+    const maxVWAPExtension = params.entryConditions?.maxVWAPExtension
+    const atr = context.atr[index]
+    if (maxVWAPExtension && atr > 0) {
+      const extension = (currentBar.c - context.vwap[index]) / atr
+      if ((side === 'long' ? extension : -extension) > maxVWAPExtension) {
+        return null
+      }
+    }
+
+    return side
+  }
+
+  private async shouldExit(
+    strategyModule: StrategyModule,
+    session: TickerSession,
+    position: Trade,
+    index: number
+  ): Promise<ExitSignal | null> {
+    const { context } = session
+    const params = context.params
+    const currentBar = context.bars[index]
+    const currentTime = new Date(currentBar.t)
+
+    // Resting stop and target orders come first
+    const window = this.getExitWindow(session, currentBar)
+    const bracketExit = window ? await this.checkBracket(session, position, window) : null
+    if (bracketExit) {
+      return bracketExit
     }
 
     // Time-based exit
     if (params.exitConditions?.timeBasedExit) {
       const holdTime = (currentTime.getTime() - position.entryTime.getTime()) / (1000 * 60)
       if (holdTime >= (params.exitConditions.maxHoldTime || 60)) {
-        position.reason = 'time_exit'
-        return true
+        return { reason: 'time_exit' }
       }
     }
 
-    // Trailing stop
-    if (params.exitConditions?.trailingStop) {
-      // Implementation would go here
+    // Strategy-specific exit
+    const strategyExit = strategyModule.shouldExit?.(context, position, index)
+    if (strategyExit) {
+      return { reason: strategyExit }
     }
 
-    return false
+    return null
   }
 
-  private microscalpingEntry(data: PolygonBar[], index: number): boolean {
-    // Quick momentum with high volume
-    const current = data[index]
-    const prev = data[index - 1]
-    const volumeRatio = current.v / prev.v
-    
-    return volumeRatio > 1.5 && current.c > prev.c
+  // What of this bar the position's stop and target can trade against: the whole bar once past the entry bar,
+  // the rest of the fill window on it, and nothing when the entry filled on its close
+  private getExitWindow(session: TickerSession, bar: PolygonBar): PolygonBar | null {
+    const { position } = session
+    return position && bar.t <= position.entryTime.getTime() ? session.entryWindow : bar
   }
 
-  private momentumEntry(data: PolygonBar[], index: number): boolean {
-    // Strong momentum with increasing volume
-    if (index < 5) return false
-    
-    const current = data[index]
-    const avgVolume = data.slice(index - 5, index).reduce((sum, bar) => sum + bar.v, 0) / 5
-    
-    return current.v > avgVolume * 1.2 && current.c > data[index - 1].c
+  // The bracket's working orders checked against a bar's range
+  private async checkBracket(session: TickerSession, position: Trade, bar: PolygonBar): Promise<ExitSignal | null> {
+    const { bracket, context } = session
+    if (!bracket) return null
+
+    const isLong = position.side === 'long'
+    const stop = isOrderWorking(bracket.stop) ? bracket.stop.stopPrice as number : null
+    // A scale-out target is handled separately; only a one-cancels-other target closes the trade
+    const target = bracket.oco && bracket.target && isOrderWorking(bracket.target) ? bracket.target.limitPrice as number : null
+
+    const stopHit = stop !== null && (isLong ? bar.l <= stop : bar.h >= stop)
+    const targetHit = target !== null && (isLong ? bar.h >= target : bar.l <= target)
+
+    if (stopHit && stop !== null) {
+      // Once the trail has taken over the stop order, a stop-out is a trailing stop
+      const reason: ExitReason = position.trailingStopPrice === stop ? 'trailing_stop' : 'stop_loss'
+      const stopExit: ExitSignal = { reason, price: this.getLevelFill(bar, stop, isLong), leg: 'stop' }
+      if (!targetHit || target === null) return stopExit
+      const first = await this.resolveIntrabarOrder(context.ticker, context.params.intrabarRule || this.intrabarRule, bar, isLong, stop, target)
+      if (first === 'stop') return stopExit
+    }
+    if (targetHit && target !== null) {
+      return { reason: 'take_profit', price: this.getLevelFill(bar, target, !isLong), leg: 'target' }
+    }
+    return null
   }
 
-  private meanReversionEntry(data: PolygonBar[], index: number): boolean {
-    // Price oversold condition
-    if (index < 20) return false
-    
-    const current = data[index]
-    const sma20 = data.slice(index - 20, index).reduce((sum, bar) => sum + bar.c, 0) / 20
-    
-    return current.c < sma20 * 0.98 // 2% below 20-period SMA
+  // A level touched inside the bar fills at the level, or at the open when the bar gapped through it
+  private getLevelFill(bar: PolygonBar, level: number, fromAbove: boolean): number {
+    return fromAbove ? Math.min(bar.o, level) : Math.max(bar.o, level)
   }
 
-  private calculatePositionSize(capital: number, positionSizePercent: number, price: number): number {
-    const positionValue = capital * (positionSizePercent / 100)
-    return Math.floor(positionValue / price)
+  private async resolveIntrabarOrder(
+    ticker: string,
+    rule: IntrabarRule,
+    bar: PolygonBar,
+    isLong: boolean,
+    stop: number,
+    target: number
+  ): Promise<'stop' | 'target'> {
+    // A bar that opened through one of the levels filled it at the open, before anything else could print
+    if (isLong ? bar.o <= stop : bar.o >= stop) return 'stop'
+    if (isLong ? bar.o >= target : bar.o <= target) return 'target'
+
+    if (rule === 'optimistic') return 'target'
+
+    if (rule === 'tick') {
+      // Walk the minute second by second; whichever level prints first wins
+      const seconds = await this.fetchSecondBars(ticker, bar.t)
+      for (const second of seconds) {
+        const stopHit = isLong ? second.l <= stop : second.h >= stop
+        const targetHit = isLong ? second.h >= target : second.l <= target
+        if (stopHit && !targetHit) return 'stop'
+        if (targetHit && !stopHit) return 'target'
+        if (stopHit && targetHit) break // Still ambiguous at one-second resolution
+      }
+    }
+
+    // Pessimistic, or no finer data to tell them apart
+    return 'stop'
   }
 
-  private calculateEntryPrice(bar: PolygonBar, side: 'buy' | 'sell'): number {
-    // Simulate realistic entry prices with spread
-    const spread = 0.01 // 1 cent spread
-    return side === 'buy' ? bar.c + spread / 2 : bar.c - spread / 2
+  private async fetchSecondBars(ticker: string, minuteStart: number): Promise<PolygonBar[]> {
+    // Latency fills and tick resolution can ask for the same minute more than once
+    const key = `${ticker}-${minuteStart}`
+    const cached = this.secondBarCache.get(key)
+    if (cached) return cached
+
+    try {
+      const { fetchMinuteData } = await import('./polygon')
+      const seconds = await fetchMinuteData(ticker, String(minuteStart), String(minuteStart + 59999), 1, 'second')
+      this.secondBarCache.set(key, seconds)
+      return seconds
+    } catch (error) {
+      console.error(`Failed to fetch second bars for ${ticker}:`, error)
+      return []
+    }
   }
 
-  private calculateSlippage(price: number, quantity: number): number {
-    // Slippage increases with trade size
-    return price * quantity * 0.001 // 0.1% slippage
+  private getTrailLevels(context: StrategyDayContext): number[] {
+    // Per-bar reference series for the configured trail method (percent trailing needs none)
+    const { params, bars } = context
+    switch (params.exitConditions?.trailMethod || params.trailMethod) {
+      case 'vwap':
+        return context.vwap
+      case 'ema9':
+        return calculateEMASeries(bars.map(bar => bar.c), 9)
+      case 'atr_pullback':
+        return context.atr
+      default:
+        return []
+    }
   }
 
-  private isMarketOpen(date: Date, tradingHours?: { start: string; end: string }): boolean {
-    const day = date.getDay()
-    if (day === 0 || day === 6) return false // Weekend
+  private updateTrailingStop(position: Trade, params: StrategyParameters, bar: PolygonBar, level: number | undefined): void {
+    const isLong = position.side === 'long'
+    const direction = isLong ? 1 : -1
+    const peak = isLong
+      ? Math.max(position.peakPrice ?? bar.h, bar.h)
+      : Math.min(position.peakPrice ?? bar.l, bar.l)
+    position.peakPrice = peak
 
-    const [startHour, startMin] = (tradingHours?.start || '09:30').split(':').map(Number)
-    const [endHour, endMin] = (tradingHours?.end || '16:00').split(':').map(Number)
-    
-    const currentHour = date.getHours()
-    const currentMin = date.getMinutes()
-    
-    const startTime = startHour * 60 + startMin
-    const endTime = endHour * 60 + endMin
-    const currentTime = currentHour * 60 + currentMin
-    
-    return currentTime >= startTime && currentTime <= endTime
+    const trailAmount = params.exitConditions?.trailingStopPercent || 0
+    let candidate: number | null = null
+
+    switch (params.exitConditions?.trailMethod || params.trailMethod) {
+      case 'vwap':
+      case 'ema9':
+        candidate = level ?? null
+        break
+      case 'atr_pullback':
+        // trailingStopPercent is read as an ATR multiple here
+        candidate = level !== undefined ? peak - direction * (trailAmount || 0.5) * level : null
+        break
+      default:
+        // With nothing configured to trail by, the remainder is held at breakeven rather than the original stop
+        candidate = trailAmount > 0 ? peak * (1 - direction * trailAmount / 100) : position.entryPrice
+    }
+
+    // A level on the wrong side of price would stop out instantly, so only arm it once price is through it
+    if (candidate === null || isNaN(candidate) || (isLong ? candidate >= bar.c : candidate <= bar.c)) {
+      return
+    }
+    candidate = roundToTick(candidate)
+
+    // Stops only ever move in the trade's favor
+    position.trailingStopPrice = position.trailingStopPrice === undefined
+      ? candidate
+      : isLong ? Math.max(position.trailingStopPrice, candidate) : Math.min(position.trailingStopPrice, candidate)
   }
 
-  private getDayData(data: PolygonBar[], date: Date): PolygonBar[] {
-    const dayStart = new Date(date)
-    dayStart.setHours(0, 0, 0, 0)
-    const dayEnd = new Date(date)
-    dayEnd.setHours(23, 59, 59, 999)
-    
-    return data.filter(bar => {
-      const barDate = new Date(bar.t)
-      return barDate >= dayStart && barDate <= dayEnd
-    })
+  // Prevailing NBBO at the bar's close, or null without a quote source
+  private async getQuote(ticker: string, bar: PolygonBar): Promise<Quote | null> {
+    return this.getQuoteAt(ticker, bar.t + BAR_DURATION_MS)
   }
 
-  private calculatePerformanceMetrics(
-    trades: Trade[],
-    equityCurve: EquityPoint[],
-    maxDrawdown: number
-  ): PerformanceMetrics {
-    if (trades.length === 0) {
-      return this.getEmptyMetrics()
-    }
+  private async getQuoteAt(ticker: string, timestamp: number): Promise<Quote | null> {
+    return this.quoteSource ? await this.quoteSource.getQuote(ticker, timestamp) : null
+  }
 
-    const totalReturn = (equityCurve[equityCurve.length - 1]?.equity - this.capital) / this.capital
-    const winningTrades = trades.filter(t => t.pnl > 0)
-    const losingTrades = trades.filter(t => t.pnl < 0)
-    
-    const winRate = (winningTrades.length / trades.length) * 100
-    const avgWin = winningTrades.length > 0 ? winningTrades.reduce((sum, t) => sum + t.pnl, 0) / winningTrades.length : 0
-    const avgLoss = losingTrades.length > 0 ? Math.abs(losingTrades.reduce((sum, t) => sum + t.pnl, 0) / losingTrades.length) : 0
-    const profitFactor = avgLoss > 0 ? (avgWin * winningTrades.length) / (avgLoss * losingTrades.length) : 0
+  private calculatePositionSize(portfolio: PortfolioState, params: StrategyParameters, price: number, stopPrice: number): number {
+    // Never size beyond the buying power other open positions have left
+    const maxShares = Math.floor(Math.max(portfolio.cash, 0) / price)
 
-    // Calculate volatility (annualized)
-    const returns = equityCurve.slice(1).map((point, i) => 
-      (point.equity - equityCurve[i].equity) / equityCurve[i].equity
-    )
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length
-    const variance = returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length
-    const volatility = Math.sqrt(variance * 252) // Annualized
+    // Risk-based sizing: shares whose stop-out loses exactly riskPerTrade
+    const stopDistance = Math.abs(price - stopPrice)
+    if (params.riskPerTrade > 0 && stopDistance > 0) {
+      return Math.min(Math.floor(params.riskPerTrade / stopDistance), maxShares)
+    }
 
-    // Calculate Sharpe ratio (assuming 2% risk-free rate)
-    const riskFreeRate = 0.02
-    const sharpeRatio = volatility > 0 ? (totalReturn - riskFreeRate) / volatility : 0
+    const positionValue = portfolio.equity * ((params.positionSize || 20) / 100)
+    return Math.min(Math.floor(positionValue / price), maxShares)
+  }
 
-    return {
-      totalReturn: totalReturn * 100,
-      annualizedReturn: totalReturn * 100, // Simplified
-      sharpeRatio,
-      maxDrawdown: maxDrawdown * 100,
-      winRate,
-      profitFactor,
-      totalTrades: trades.length,
-      avgTradeReturn: trades.reduce((sum, t) => sum + t.pnl, 0) / trades.length,
-      bestTrade: Math.max(...trades.map(t => t.pnl)),
-      worstTrade: Math.min(...trades.map(t => t.pnl)),
-      avgHoldTime: trades.reduce((sum, t) => sum + t.holdTime, 0) / trades.length,
-      volatility: volatility * 100,
-      calmarRatio: maxDrawdown > 0 ? totalReturn / maxDrawdown : 0,
-      sortinoRatio: sharpeRatio // Simplified
+  private calculateFillPrice(params: StrategyParameters, price: number, side: 'buy' | 'sell', quote: Quote | null = null): number {
+    // The percent_of_spread slippage model charges the spread itself, so fills start from the mid
+    if (params.slippageModel?.model === 'percent_of_spread') {
+      return quote ? (quote.bid + quote.ask) / 2 : price
+    }
+
+    // Buys lift the ask and sells hit the bid when a real quote is available
+    if (quote) {
+      return side === 'buy' ? quote.ask : quote.bid
     }
+
+    // Otherwise simulate realistic fill prices with spread
+    return side === 'buy' ? price + MODELLED_SPREAD / 2 : price - MODELLED_SPREAD / 2
+  }
+
+  private isMarketOpen(dayKey: string): boolean {
+    return isTradingDay(this.calendar, dayKey)
+  }
+
+  // Configured trading hours, cut off at the exchange close (earlier on half-days)
+  private getTradingWindow(params: StrategyParameters, dayKey: string): { start: string; end: string } {
+    const close = parseClockTime(getSessionClose(this.calendar, dayKey))
+    const exitBy = params.forceExitAtSessionEnd ? close - FORCE_EXIT_MINUTES_BEFORE_CLOSE : close
+    const end = Math.min(parseClockTime(params.tradingHours?.end || REGULAR_SESSION_CLOSE), exitBy)
+    return { start: params.tradingHours?.start || REGULAR_SESSION_OPEN, end: formatClockTime(end) }
+  }
+
+  // Index of the last bar that opens before `minuteOfDay`, or -1 when none do
+  private findLastIndexBefore(bars: PolygonBar[], minuteOfDay: number): number {
+    let index = bars.length - 1
+    while (index >= 0 && getExchangeMinuteOfDay(bars[index].t) >= minuteOfDay) index--
+    return index
+  }
+
+  private getDayData(dataset: TickerDataset, dayKey: string): PolygonBar[] {
+    // Day boundaries are exchange-time midnights, wherever the app runs
+    return dataset.barsByDay.get(dayKey) || []
   }
 
   private getEmptyMetrics(): PerformanceMetrics {
@@ -473,24 +1486,28 @@ export class BacktestingEngine {
     return []
   }
 
+  private getDayNews(events: NewsEvent[], dayData: PolygonBar[]): NewsEvent[] {
+    // Events from the prior session close through the end of the day's bars
+    const dayStart = dayData[0].t - 24 * 60 * 60 * 1000
+    const dayEnd = dayData[dayData.length - 1].t
+    return events.filter(event => event.timestamp >= dayStart && event.timestamp <= dayEnd)
+  }
+
+  private getPreviousClose(data: PolygonBar[], dayStart: number): number | null {
+    // Last regular-session bar before the day, skipping after-hours prints; half-days close early
+    for (let i = data.length - 1; i >= 0; i--) {
+      if (data[i].t >= dayStart) continue
+      const close = parseClockTime(getSessionClose(this.calendar, getExchangeDateKey(data[i].t)))
+      if (getExchangeMinuteOfDay(data[i].t) < close) {
+        return data[i].c
+      }
+    }
+    return null
+  }
+
   private calculatePerformanceMetrics(trades: Trade[], equityCurve: EquityPoint[]): PerformanceMetrics {
     if (trades.length === 0) {
-      return {
-        totalReturn: 0,
-        annualizedReturn: 0,
-        sharpeRatio: 0,
-        maxDrawdown: 0,
-        winRate: 0,
-        profitFactor: 0,
-        totalTrades: 0,
-        avgTradeReturn: 0,
-        bestTrade: 0,
-        worstTrade: 0,
-        avgHoldTime: 0,
-        volatility: 0,
-        calmarRatio: 0,
-        sortinoRatio: 0
-      }
+      return this.getEmptyMetrics()
     }
 
     const totalReturn = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity - this.capital : 0
@@ -499,6 +1516,12 @@ export class BacktestingEngine {
     const winningTrades = trades.filter(trade => trade.pnl > 0)
     const losingTrades = trades.filter(trade => trade.pnl < 0)
     const winRate = (winningTrades.length / trades.length) * 100
+
+    // Long / short breakdown
+    const longTrades = trades.filter(trade => trade.side === 'long')
+    const shortTrades = trades.filter(trade => trade.side === 'short')
+    const sideWinRate = (sideTrades: Trade[]) =>
+      sideTrades.length > 0 ? (sideTrades.filter(trade => trade.pnl > 0).length / sideTrades.length) * 100 : 0
     
     const grossProfit = winningTrades.reduce((sum, trade) => sum + trade.pnl, 0)
     const grossLoss = Math.abs(losingTrades.reduce((sum, trade) => sum + trade.pnl, 0))
@@ -532,8 +1555,8 @@ export class BacktestingEngine {
     const sharpeRatio = volatility > 0 ? avgReturn / volatility : 0
     
     // Calculate annualized return
-    const days = (this.endDate.getTime() - this.startDate.getTime()) / (1000 * 60 * 60 * 24)
-    const annualizedReturn = days > 0 ? (Math.pow(1 + totalReturnPercent / 100, 365 / days) - 1) * 100 : 0
+    const days = this.getTradingDays().length
+    const annualizedReturn = days > 0 ? (Math.pow(1 + totalReturnPercent / 100, TRADING_DAYS_PER_YEAR / days) - 1) * 100 : 0
     
     // Calculate Calmar ratio
     const calmarRatio = maxDrawdown > 0 ? annualizedReturn / maxDrawdown : 0
@@ -559,7 +1582,11 @@ export class BacktestingEngine {
       avgHoldTime,
       volatility,
       calmarRatio,
-      sortinoRatio
+      sortinoRatio,
+      longTrades: longTrades.length,
+      shortTrades: shortTrades.length,
+      longWinRate: sideWinRate(longTrades),
+      shortWinRate: sideWinRate(shortTrades)
     }
   }
 
@@ -568,19 +1595,9 @@ export class BacktestingEngine {
     return []
   }
 
-  private getTradingDays(): Date[] {
-    const tradingDays: Date[] = []
-    const currentDate = new Date(this.startDate)
-    
-    while (currentDate <= this.endDate) {
-      // Skip weekends (Saturday = 6, Sunday = 0)
-      if (currentDate.getDay() !== 0 && currentDate.getDay() !== 6) {
-        tradingDays.push(new Date(currentDate))
-      }
-      currentDate.setDate(currentDate.getDate() + 1)
-    }
-    
-    return tradingDays
+  private getTradingDays(): string[] {
+    // Exchange dates in the range, skipping weekends and holidays
+    return getCalendarDateKeys(this.startDate, this.endDate).filter(dayKey => this.isMarketOpen(dayKey))
   }
 
   private generateMockBacktestResult(strategy: Strategy): BacktestResult {
@@ -623,7 +1640,8 @@ export class BacktestingEngine {
       trades: [], // Empty trades array for mock
       equityCurve: this.generateMockEquityCurve(performance.totalReturn / 100),
       drawdownCurve: [],
-      monthlyReturns: []
+      monthlyReturns: [],
+      fillTiming: getFillTiming(strategy.parameters)
     }
   }
 
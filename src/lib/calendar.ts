@@ -0,0 +1,157 @@
+// NYSE trading calendar: full-day holidays and early (13:00) closes
+import { getDayOfWeek, REGULAR_SESSION_CLOSE } from './marketHours'
+
+export const DEFAULT_CALENDAR_FILE = '/data/calendar.json'
+export const TRADING_DAYS_PER_YEAR = 252
+
+const EARLY_CLOSE = '13:00'
+
+export interface MarketCalendar {
+  holidays: Record<string, string> // "YYYY-MM-DD" -> holiday name
+  earlyCloses: Record<string, string> // "YYYY-MM-DD" -> "HH:MM" session close
+}
+
+export const NYSE_CALENDAR: MarketCalendar = {
+  holidays: {
+    '2019-01-01': "New Year's Day",
+    '2019-01-21': 'Martin Luther King Jr. Day',
+    '2019-02-18': "Washington's Birthday",
+    '2019-04-19': 'Good Friday',
+    '2019-05-27': 'Memorial Day',
+    '2019-07-04': 'Independence Day',
+    '2019-09-02': 'Labor Day',
+    '2019-11-28': 'Thanksgiving Day',
+    '2019-12-25': 'Christmas Day',
+    '2020-01-01': "New Year's Day",
+    '2020-01-20': 'Martin Luther King Jr. Day',
+    '2020-02-17': "Washington's Birthday",
+    '2020-04-10': 'Good Friday',
+    '2020-05-25': 'Memorial Day',
+    '2020-07-03': 'Independence Day (observed)',
+    '2020-09-07': 'Labor Day',
+    '2020-11-26': 'Thanksgiving Day',
+    '2020-12-25': 'Christmas Day',
+    '2021-01-01': "New Year's Day",
+    '2021-01-18': 'Martin Luther King Jr. Day',
+    '2021-02-15': "Washington's Birthday",
+    '2021-04-02': 'Good Friday',
+    '2021-05-31': 'Memorial Day',
+    '2021-07-05': 'Independence Day (observed)',
+    '2021-09-06': 'Labor Day',
+    '2021-11-25': 'Thanksgiving Day',
+    '2021-12-24': 'Christmas Day (observed)',
+    '2022-01-17': 'Martin Luther King Jr. Day',
+    '2022-02-21': "Washington's Birthday",
+    '2022-04-15': 'Good Friday',
+    '2022-05-30': 'Memorial Day',
+    '2022-06-20': 'Juneteenth (observed)',
+    '2022-07-04': 'Independence Day',
+    '2022-09-05': 'Labor Day',
+    '2022-11-24': 'Thanksgiving Day',
+    '2022-12-26': 'Christmas Day (observed)',
+    '2023-01-02': "New Year's Day (observed)",
+    '2023-01-16': 'Martin Luther King Jr. Day',
+    '2023-02-20': "Washington's Birthday",
+    '2023-04-07': 'Good Friday',
+    '2023-05-29': 'Memorial Day',
+    '2023-06-19': 'Juneteenth',
+    '2023-07-04': 'Independence Day',
+    '2023-09-04': 'Labor Day',
+    '2023-11-23': 'Thanksgiving Day',
+    '2023-12-25': 'Christmas Day',
+    '2024-01-01': "New Year's Day",
+    '2024-01-15': 'Martin Luther King Jr. Day',
+    '2024-02-19': "Washington's Birthday",
+    '2024-03-29': 'Good Friday',
+    '2024-05-27': 'Memorial Day',
+    '2024-06-19': 'Juneteenth',
+    '2024-07-04': 'Independence Day',
+    '2024-09-02': 'Labor Day',
+    '2024-11-28': 'Thanksgiving Day',
+    '2024-12-25': 'Christmas Day',
+    '2025-01-01': "New Year's Day",
+    '2025-01-09': 'National Day of Mourning (President Carter)',
+    '2025-01-20': 'Martin Luther King Jr. Day',
+    '2025-02-17': "Washington's Birthday",
+    '2025-04-18': 'Good Friday',
+    '2025-05-26': 'Memorial Day',
+    '2025-06-19': 'Juneteenth',
+    '2025-07-04': 'Independence Day',
+    '2025-09-01': 'Labor Day',
+    '2025-11-27': 'Thanksgiving Day',
+    '2025-12-25': 'Christmas Day',
+    '2026-01-01': "New Year's Day",
+    '2026-01-19': 'Martin Luther King Jr. Day',
+    '2026-02-16': "Washington's Birthday",
+    '2026-04-03': 'Good Friday',
+    '2026-05-25': 'Memorial Day',
+    '2026-06-19': 'Juneteenth',
+    '2026-07-03': 'Independence Day (observed)',
+    '2026-09-07': 'Labor Day',
+    '2026-11-26': 'Thanksgiving Day',
+    '2026-12-25': 'Christmas Day',
+    '2027-01-01': "New Year's Day",
+    '2027-01-18': 'Martin Luther King Jr. Day',
+    '2027-02-15': "Washington's Birthday",
+    '2027-03-26': 'Good Friday',
+    '2027-05-31': 'Memorial Day',
+    '2027-06-18': 'Juneteenth (observed)',
+    '2027-07-05': 'Independence Day (observed)',
+    '2027-09-06': 'Labor Day',
+    '2027-11-25': 'Thanksgiving Day',
+    '2027-12-24': 'Christmas Day (observed)'
+  },
+  earlyCloses: {
+    '2019-07-03': EARLY_CLOSE,
+    '2019-11-29': EARLY_CLOSE,
+    '2019-12-24': EARLY_CLOSE,
+    '2020-11-27': EARLY_CLOSE,
+    '2020-12-24': EARLY_CLOSE,
+    '2021-11-26': EARLY_CLOSE,
+    '2022-11-25': EARLY_CLOSE,
+    '2023-07-03': EARLY_CLOSE,
+    '2023-11-24': EARLY_CLOSE,
+    '2024-07-03': EARLY_CLOSE,
+    '2024-11-29': EARLY_CLOSE,
+    '2024-12-24': EARLY_CLOSE,
+    '2025-07-03': EARLY_CLOSE,
+    '2025-11-28': EARLY_CLOSE,
+    '2025-12-24': EARLY_CLOSE,
+    '2026-11-27': EARLY_CLOSE,
+    '2026-12-24': EARLY_CLOSE,
+    '2027-11-26': EARLY_CLOSE
+  }
+}
+
+export function isTradingDay(calendar: MarketCalendar, dateKey: string): boolean {
+  const day = getDayOfWeek(dateKey)
+  return day !== 0 && day !== 6 && !(dateKey in calendar.holidays)
+}
+
+// Regular-session close for the day, earlier on half-days
+export function getSessionClose(calendar: MarketCalendar, dateKey: string): string {
+  return calendar.earlyCloses[dateKey] || REGULAR_SESSION_CLOSE
+}
+
+// Entries in the override win over the base calendar for the same date
+export function mergeCalendars(base: MarketCalendar, override: Partial<MarketCalendar>): MarketCalendar {
+  return {
+    holidays: { ...base.holidays, ...override.holidays },
+    earlyCloses: { ...base.earlyCloses, ...override.earlyCloses }
+  }
+}
+
+// Bundled NYSE calendar plus any custom dates served from `url` (e.g. public/data/calendar.json)
+export async function loadMarketCalendar(url: string = DEFAULT_CALENDAR_FILE): Promise<MarketCalendar> {
+  try {
+    const response = await fetch(url)
+    if (!response.ok) {
+      console.log(`No calendar override at ${url} (status ${response.status}), using the NYSE calendar`)
+      return NYSE_CALENDAR
+    }
+    return mergeCalendars(NYSE_CALENDAR, await response.json() as Partial<MarketCalendar>)
+  } catch (error) {
+    console.error(`Failed to load calendar override from ${url}:`, error)
+    return NYSE_CALENDAR
+  }
+}
@@ -0,0 +1,89 @@
+// Broker commission schedules and the regulatory fees charged on sells
+import { CommissionSchedule, CommissionTier, StrategyParameters } from '@/types/strategy'
+import { getExchangeDateKey } from './marketHours'
+
+// SEC Section 31 fee per dollar sold, by the date each rate took effect, newest first
+export const SEC_FEE_SCHEDULE: { from: string; rate: number }[] = [
+  { from: '2025-05-14', rate: 0 },
+  { from: '2024-05-22', rate: 27.8 / 1000000 },
+  { from: '2023-02-27', rate: 8 / 1000000 },
+  { from: '2022-05-22', rate: 22.9 / 1000000 }
+]
+
+// FINRA trading activity fee per share sold, capped per trade
+export const FINRA_TAF_PER_SHARE = 0.000166
+export const FINRA_TAF_MAX = 8.3
+
+const DEFAULT_PER_SHARE = 0.005
+const DEFAULT_PER_SHARE_MIN = 1
+const DEFAULT_TIERED_MIN = 0.35
+const DEFAULT_MAX_PERCENT_OF_VALUE = 1
+
+// IBKR Pro tiered rates by monthly share volume
+export const DEFAULT_COMMISSION_TIERS: CommissionTier[] = [
+  { upToShares: 300000, perShare: 0.0035 },
+  { upToShares: 3000000, perShare: 0.002 },
+  { upToShares: 20000000, perShare: 0.0015 },
+  { upToShares: 100000000, perShare: 0.001 },
+  { perShare: 0.0005 }
+]
+
+export interface OrderFill {
+  shares: number
+  price: number
+  isSell: boolean // sells to close longs and sells to open shorts both pay regulatory fees
+  time: number // fill time, which picks the SEC fee rate in effect
+}
+
+// Strategies without a schedule pay commissionPerTrade on every order
+export function getCommissionSchedule(params: StrategyParameters): CommissionSchedule {
+  const schedule = params.commission || { model: 'per_order' }
+  return { ...schedule, perOrder: schedule.perOrder ?? params.commissionPerTrade ?? 0 }
+}
+
+function getTierRate(tiers: CommissionTier[], monthlyShares: number): number {
+  const tier = tiers.find(tier => tier.upToShares === undefined || monthlyShares < tier.upToShares)
+  return (tier || tiers[tiers.length - 1]).perShare
+}
+
+// Per-share rate bounded by the per-order minimum and a percentage-of-value cap
+function perShareCommission(rate: number, min: number, maxPercent: number, order: OrderFill): number {
+  const value = order.shares * order.price
+  return Math.min(Math.max(order.shares * rate, min), value * maxPercent / 100)
+}
+
+export function calculateCommission(schedule: CommissionSchedule, order: OrderFill, monthlyShares: number = 0): number {
+  if (order.shares <= 0) return 0
+
+  const maxPercent = schedule.maxPercentOfValue ?? DEFAULT_MAX_PERCENT_OF_VALUE
+  switch (schedule.model) {
+    case 'per_share':
+      return perShareCommission(schedule.perShare ?? DEFAULT_PER_SHARE, schedule.minPerOrder ?? DEFAULT_PER_SHARE_MIN, maxPercent, order)
+    case 'tiered': {
+      const rate = getTierRate(schedule.tiers?.length ? schedule.tiers : DEFAULT_COMMISSION_TIERS, monthlyShares)
+      return perShareCommission(rate, schedule.minPerOrder ?? DEFAULT_TIERED_MIN, maxPercent, order)
+    }
+    default:
+      return schedule.perOrder || 0
+  }
+}
+
+// Rate in effect on the fill's exchange date; fills before the earliest entry use that entry
+export function getSECFeeRate(time: number): number {
+  const dateKey = getExchangeDateKey(time)
+  const entry = SEC_FEE_SCHEDULE.find(entry => entry.from <= dateKey)
+  return (entry || SEC_FEE_SCHEDULE[SEC_FEE_SCHEDULE.length - 1]).rate
+}
+
+export function calculateRegulatoryFees(order: OrderFill, secFeeRate: number = getSECFeeRate(order.time)): number {
+  if (!order.isSell || order.shares <= 0) return 0
+  const secFee = order.shares * order.price * secFeeRate
+  const taf = Math.min(order.shares * FINRA_TAF_PER_SHARE, FINRA_TAF_MAX)
+  return secFee + taf
+}
+
+// Everything charged on one order: commission plus regulatory fees when the schedule includes them
+export function calculateOrderFees(schedule: CommissionSchedule, order: OrderFill, monthlyShares: number = 0): number {
+  const regulatory = schedule.regulatoryFees === false ? 0 : calculateRegulatoryFees(order, schedule.secFeeRate ?? getSECFeeRate(order.time))
+  return calculateCommission(schedule, order, monthlyShares) + regulatory
+}
@@ -0,0 +1,125 @@
+// Opening-range and VWAP entry triggers shared by the strategy modules
+import { EntryConditions, TradeSide } from '@/types/strategy'
+import { getTickSize } from './orders'
+import { PolygonBar } from './polygon'
+import { getExchangeMinuteOfDay, parseClockTime, REGULAR_SESSION_OPEN } from './marketHours'
+import { StrategyDayContext } from './strategies/types'
+
+export const DEFAULT_OPENING_RANGE_MINUTES = 15
+export const DEFAULT_VWAP_BAND_WIDTH = 2 // standard deviations from VWAP to each band
+
+const RECLAIM_HOLD_BARS = 3 // closes back across VWAP needed before a reclaim can trigger
+const CONSOLIDATION_BARS = 10
+const MAX_CONSOLIDATION_ATR = 1.5 // box height must stay within this many ATRs
+
+export type EntryTrigger = NonNullable<EntryConditions['entryTrigger']>
+
+export interface OpeningRange {
+  high: number
+  low: number
+  end: number // exchange minute-of-day the range completes
+}
+
+// High and low of the first `minutes` of the regular session, or null when no bars fall inside it
+export function calculateOpeningRange(bars: PolygonBar[], minutes: number): OpeningRange | null {
+  const start = parseClockTime(REGULAR_SESSION_OPEN)
+  const end = start + minutes
+  const rangeBars = bars.filter(bar => {
+    const minute = getExchangeMinuteOfDay(bar.t)
+    return minute >= start && minute < end
+  })
+  if (rangeBars.length === 0) return null
+
+  return {
+    high: Math.max(...rangeBars.map(bar => bar.h)),
+    low: Math.min(...rangeBars.map(bar => bar.l)),
+    end
+  }
+}
+
+// Tight box over the bars preceding `index`, or null when the range is too wide to count as consolidation
+export function findConsolidationBox(bars: PolygonBar[], index: number, atr: number): { high: number; low: number } | null {
+  if (index < CONSOLIDATION_BARS || atr <= 0) return null
+
+  const window = bars.slice(index - CONSOLIDATION_BARS, index)
+  const high = Math.max(...window.map(bar => bar.h))
+  const low = Math.min(...window.map(bar => bar.l))
+
+  return high - low <= atr * MAX_CONSOLIDATION_ATR ? { high, low } : null
+}
+
+// First close through either edge of a range
+function breaksRange(current: PolygonBar, prev: PolygonBar, high: number, low: number): TradeSide | null {
+  if (current.c > high && prev.c <= high) return 'long'
+  if (current.c < low && prev.c >= low) return 'short'
+  return null
+}
+
+// Price was on the wrong side of VWAP, held the other side for a few closes, then broke the hold's extreme
+function findVWAPReclaim({ bars, vwap }: Omit<StrategyDayContext, 'state'>, index: number): TradeSide | null {
+  const start = index - RECLAIM_HOLD_BARS
+  if (start < 1) return null
+
+  const hold = bars.slice(start, index)
+  const before = bars[start - 1]
+  const current = bars[index]
+
+  if (before.c < vwap[start - 1] && hold.every((bar, i) => bar.c > vwap[start + i]) &&
+      current.c > Math.max(...hold.map(bar => bar.h))) {
+    return 'long'
+  }
+  if (before.c > vwap[start - 1] && hold.every((bar, i) => bar.c < vwap[start + i]) &&
+      current.c < Math.min(...hold.map(bar => bar.l))) {
+    return 'short'
+  }
+  return null
+}
+
+// Side signalled by `trigger` on this bar; `atr` sizes the consolidation box
+export function evaluateEntryTrigger(
+  context: Omit<StrategyDayContext, 'state'>,
+  index: number,
+  trigger: EntryTrigger,
+  atr: number = context.atr[index - 1]
+): TradeSide | null {
+  const { bars, vwap, vwapStdDev } = context
+  const current = bars[index]
+  const prev = bars[index - 1]
+  if (!prev) return null
+  const entryConditions = context.params.entryConditions
+
+  switch (trigger) {
+    case 'vwap_cross':
+      if (prev.c <= vwap[index - 1] && current.c > vwap[index]) return 'long'
+      if (prev.c >= vwap[index - 1] && current.c < vwap[index]) return 'short'
+      return null
+    case 'vwap_reclaim':
+      return findVWAPReclaim(context, index)
+    case 'break_high':
+      // Clear the last high by the buffer so merely touching it doesn't count
+      return current.c >= prev.h + (entryConditions?.breakoutBuffer ?? getTickSize(prev.h)) ? 'long' : null
+    case 'break_low':
+      return current.c <= prev.l - (entryConditions?.breakoutBuffer ?? getTickSize(prev.l)) ? 'short' : null
+    case 'vwap_band_fade': {
+      // Close back inside a band after closing outside it, fading toward VWAP
+      const width = entryConditions?.vwapBandWidth || DEFAULT_VWAP_BAND_WIDTH
+      if (vwapStdDev[index - 1] <= 0) return null
+      const band = (i: number, direction: number) => vwap[i] + direction * width * vwapStdDev[i]
+      if (prev.c < band(index - 1, -1) && current.c >= band(index, -1)) return 'long'
+      if (prev.c > band(index - 1, 1) && current.c <= band(index, 1)) return 'short'
+      return null
+    }
+    case 'or_break': {
+      // Only once the opening range is complete
+      const range = context.openingRange
+      if (!range || getExchangeMinuteOfDay(current.t) < range.end) return null
+      return breaksRange(current, prev, range.high, range.low)
+    }
+    case 'consolidation_break': {
+      const box = findConsolidationBox(bars, index, atr)
+      return box ? breaksRange(current, prev, box.high, box.low) : null
+    }
+    default:
+      return null
+  }
+}
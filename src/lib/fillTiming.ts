@@ -0,0 +1,45 @@
+// When orders decided on a bar's close reach the market
+import { FillTiming, StrategyParameters, Trade } from '@/types/strategy'
+
+// Acting on the next bar's open is achievable live; filling on the signal bar's own close is not
+export const DEFAULT_FILL_TIMING: FillTiming = { mode: 'next_bar_open' }
+export const DEFAULT_DECISION_LATENCY_MS = 250
+export const DEFAULT_ROUTING_LATENCY_MS = 1000
+
+export function getFillTiming(params: StrategyParameters): FillTiming {
+  const timing = params.fillTiming || DEFAULT_FILL_TIMING
+  if (timing.mode !== 'latency') return timing
+  return {
+    ...timing,
+    decisionLatencyMs: Math.max(timing.decisionLatencyMs ?? DEFAULT_DECISION_LATENCY_MS, 0),
+    routingLatencyMs: Math.max(timing.routingLatencyMs ?? DEFAULT_ROUTING_LATENCY_MS, 0)
+  }
+}
+
+// Time from a bar's close until an order decided on it reaches the exchange
+export function getLatencyMs(timing: FillTiming): number {
+  if (timing.mode !== 'latency') return 0
+  return (timing.decisionLatencyMs ?? DEFAULT_DECISION_LATENCY_MS) + (timing.routingLatencyMs ?? DEFAULT_ROUTING_LATENCY_MS)
+}
+
+// Dollars delayed market fills cost against their decision prices; buys paying up and sells giving up are positive
+export function calculateLatencyCost(trades: Trade[]): number {
+  return trades.reduce((total, trade) => total + trade.fills.reduce((sum, fill) => {
+    if (fill.decisionPrice === undefined) return sum
+    const isBuy = (trade.side === 'long') === (fill.action === 'entry')
+    return sum + (fill.price - fill.decisionPrice) * fill.quantity * (isBuy ? 1 : -1)
+  }, 0), 0)
+}
+
+export function describeFillTiming(timing: FillTiming): string {
+  switch (timing.mode) {
+    case 'same_bar_close':
+      return 'Same-bar close (look-ahead)'
+    case 'next_bar_vwap':
+      return 'Next-bar VWAP'
+    case 'latency':
+      return `${(getLatencyMs(timing) / 1000).toFixed(2)}s latency (${timing.decisionLatencyMs ?? DEFAULT_DECISION_LATENCY_MS}ms decision + ${timing.routingLatencyMs ?? DEFAULT_ROUTING_LATENCY_MS}ms routing)`
+    default:
+      return 'Next-bar open'
+  }
+}
@@ -0,0 +1,241 @@
+// Technical indicator series over intraday bars
+// Every series lines up index-for-index with the bars (or values) it was computed from
+import { TechnicalIndicator } from '@/types/strategy'
+import { PolygonBar } from './polygon'
+
+// Cumulative volume-weighted average of the typical price since the first bar
+export function calculateVWAPSeries(bars: PolygonBar[]): number[] {
+  let cumulativeVolume = 0
+  let cumulativeValue = 0
+
+  return bars.map(bar => {
+    const typicalPrice = (bar.h + bar.l + bar.c) / 3
+    cumulativeVolume += bar.v
+    cumulativeValue += typicalPrice * bar.v
+    return cumulativeVolume > 0 ? cumulativeValue / cumulativeVolume : typicalPrice
+  })
+}
+
+export interface VWAPPoint {
+  vwap: number
+  stdDev: number // volume-weighted standard deviation of the typical price around the VWAP
+}
+
+// VWAP and its standard deviation bands, restarting at `anchorIndex` (the regular-session open)
+// Bars before the anchor carry their own extended-hours VWAP
+export function calculateSessionVWAPSeries(bars: PolygonBar[], anchorIndex: number): VWAPPoint[] {
+  let cumulativeVolume = 0
+  let cumulativeValue = 0
+  let cumulativeSquares = 0
+
+  return bars.map((bar, i) => {
+    if (i === anchorIndex) {
+      cumulativeVolume = 0
+      cumulativeValue = 0
+      cumulativeSquares = 0
+    }
+
+    const typicalPrice = (bar.h + bar.l + bar.c) / 3
+    cumulativeVolume += bar.v
+    cumulativeValue += typicalPrice * bar.v
+    cumulativeSquares += typicalPrice * typicalPrice * bar.v
+    if (cumulativeVolume === 0) return { vwap: typicalPrice, stdDev: 0 }
+
+    const vwap = cumulativeValue / cumulativeVolume
+    return { vwap, stdDev: Math.sqrt(Math.max(cumulativeSquares / cumulativeVolume - vwap * vwap, 0)) }
+  })
+}
+
+// Exponential moving average seeded with the first value
+export function calculateEMASeries(values: number[], period: number): number[] {
+  const multiplier = 2 / (period + 1)
+  const ema: number[] = []
+
+  values.forEach((value, i) => {
+    ema.push(i === 0 ? value : (value - ema[i - 1]) * multiplier + ema[i - 1])
+  })
+  return ema
+}
+
+export function calculateTrueRange(bar: PolygonBar, prevBar?: PolygonBar): number {
+  if (!prevBar) return bar.h - bar.l
+  return Math.max(bar.h - bar.l, Math.abs(bar.h - prevBar.c), Math.abs(bar.l - prevBar.c))
+}
+
+// Wilder's average true range; before `period` bars exist it is the plain average so far
+export function calculateATRSeries(bars: PolygonBar[], period: number = 14): number[] {
+  const atr: number[] = []
+  let sum = 0
+
+  bars.forEach((bar, i) => {
+    const trueRange = calculateTrueRange(bar, bars[i - 1])
+    if (i < period) {
+      sum += trueRange
+      atr.push(sum / (i + 1))
+    } else {
+      atr.push((atr[i - 1] * (period - 1) + trueRange) / period)
+    }
+  })
+  return atr
+}
+
+// Roll bars up into `minutes`-wide buckets aligned to the clock
+export function aggregateBars(bars: PolygonBar[], minutes: number): PolygonBar[] {
+  const bucketMs = minutes * 60 * 1000
+  const aggregated: PolygonBar[] = []
+
+  for (const bar of bars) {
+    const bucketStart = Math.floor(bar.t / bucketMs) * bucketMs
+    const last = aggregated[aggregated.length - 1]
+    if (last && last.t === bucketStart) {
+      last.h = Math.max(last.h, bar.h)
+      last.l = Math.min(last.l, bar.l)
+      last.c = bar.c
+      last.v += bar.v
+    } else {
+      aggregated.push({ o: bar.o, h: bar.h, l: bar.l, c: bar.c, v: bar.v, t: bucketStart })
+    }
+  }
+  return aggregated
+}
+
+// ATR on `timeframeMinutes` bars, mapped back onto the minute bars
+// Each minute bar sees the ATR of the buckets completed before it (0 until one exists)
+export function calculateIntradayATRSeries(bars: PolygonBar[], period: number = 14, timeframeMinutes: number = 5): number[] {
+  const bucketMs = timeframeMinutes * 60 * 1000
+  const buckets = aggregateBars(bars, timeframeMinutes)
+  const bucketATR = calculateATRSeries(buckets, period)
+
+  let bucketIndex = 0
+  return bars.map(bar => {
+    const bucketStart = Math.floor(bar.t / bucketMs) * bucketMs
+    while (bucketIndex < buckets.length - 1 && buckets[bucketIndex].t < bucketStart) bucketIndex++
+    return bucketIndex > 0 ? bucketATR[bucketIndex - 1] : 0
+  })
+}
+
+// Latest daily ATR from daily bars, or null without any history
+export function calculateDailyATR(dailyBars: PolygonBar[], period: number = 14): number | null {
+  if (dailyBars.length === 0) return null
+  const atr = calculateATRSeries(dailyBars, period)
+  return atr[atr.length - 1]
+}
+
+// Simple moving average; before `period` values exist it is the plain average so far
+export function calculateSMASeries(values: number[], period: number): number[] {
+  let sum = 0
+  return values.map((value, i) => {
+    sum += value
+    if (i >= period) sum -= values[i - period]
+    return sum / Math.min(i + 1, period)
+  })
+}
+
+// Wilder's RSI; the first value is a neutral 50
+export function calculateRSISeries(values: number[], period: number = 14): number[] {
+  let avgGain = 0
+  let avgLoss = 0
+
+  return values.map((value, i) => {
+    if (i === 0) return 50
+    const change = value - values[i - 1]
+    const samples = Math.min(i, period)
+    avgGain = (avgGain * (samples - 1) + Math.max(change, 0)) / samples
+    avgLoss = (avgLoss * (samples - 1) + Math.max(-change, 0)) / samples
+    if (avgLoss === 0) return avgGain === 0 ? 50 : 100
+    return 100 - 100 / (1 + avgGain / avgLoss)
+  })
+}
+
+export interface MACDPoint {
+  macd: number
+  signal: number
+  histogram: number
+}
+
+export function calculateMACDSeries(
+  values: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MACDPoint[] {
+  const fast = calculateEMASeries(values, fastPeriod)
+  const slow = calculateEMASeries(values, slowPeriod)
+  const macd = fast.map((value, i) => value - slow[i])
+  const signal = calculateEMASeries(macd, signalPeriod)
+  return macd.map((value, i) => ({ macd: value, signal: signal[i], histogram: value - signal[i] }))
+}
+
+export interface BollingerPoint {
+  middle: number
+  upper: number
+  lower: number
+}
+
+// SMA middle band with bands `stdDevs` population standard deviations away
+export function calculateBollingerSeries(values: number[], period: number = 20, stdDevs: number = 2): BollingerPoint[] {
+  const middle = calculateSMASeries(values, period)
+  return middle.map((mean, i) => {
+    const window = values.slice(Math.max(0, i - period + 1), i + 1)
+    const deviation = Math.sqrt(window.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / window.length)
+    return { middle: mean, upper: mean + stdDevs * deviation, lower: mean - stdDevs * deviation }
+  })
+}
+
+function compare(value: number, level: number, condition: 'above' | 'below'): boolean {
+  return condition === 'above' ? value > level : value < level
+}
+
+// Per-bar check for one configured indicator; false until the indicator has warmed up
+function createIndicatorCheck(
+  indicator: TechnicalIndicator,
+  bars: PolygonBar[],
+  closes: number[],
+  vwap: number[]
+): (index: number) => boolean {
+  const period = Math.max(1, indicator.period || 14)
+
+  switch (indicator.type) {
+    case 'sma':
+    case 'ema':
+    case 'vwap': {
+      const line = indicator.type === 'sma' ? calculateSMASeries(closes, period)
+        : indicator.type === 'ema' ? calculateEMASeries(closes, period)
+        : vwap
+      const warmup = indicator.type === 'vwap' ? 0 : period - 1
+      return index => index >= warmup && compare(closes[index], line[index], indicator.condition || 'above')
+    }
+    case 'rsi': {
+      const rsi = calculateRSISeries(closes, period)
+      return index => index >= period && compare(rsi[index], indicator.threshold ?? 30, indicator.condition || 'below')
+    }
+    case 'macd': {
+      const macd = calculateMACDSeries(closes, 12, 26, period)
+      return index => index >= 26 + period - 2 && compare(macd[index].histogram, indicator.threshold ?? 0, indicator.condition || 'above')
+    }
+    case 'bollinger': {
+      const bands = calculateBollingerSeries(closes, period, indicator.threshold ?? 2)
+      return index => {
+        if (index < period - 1) return false
+        return indicator.condition === 'above' ? closes[index] > bands[index].upper : closes[index] < bands[index].lower
+      }
+    }
+    case 'atr': {
+      const atr = calculateATRSeries(bars, period)
+      return index => index >= period - 1 && compare(atr[index], indicator.threshold ?? 0, indicator.condition || 'above')
+    }
+    default:
+      return () => true
+  }
+}
+
+// Builds a per-bar check that every configured indicator condition holds on `bars`
+export function createIndicatorFilter(
+  indicators: TechnicalIndicator[],
+  bars: PolygonBar[],
+  vwap: number[] = calculateVWAPSeries(bars)
+): (index: number) => boolean {
+  const closes = bars.map(bar => bar.c)
+  const checks = indicators.map(indicator => createIndicatorCheck(indicator, bars, closes, vwap))
+  return index => checks.every(check => check(index))
+}
@@ -0,0 +1,81 @@
+// US equity session helpers - bar timestamps are evaluated in exchange time
+import { PolygonBar } from './polygon'
+
+export const EXCHANGE_TIME_ZONE = 'America/New_York'
+export const REGULAR_SESSION_OPEN = '09:30'
+export const REGULAR_SESSION_CLOSE = '16:00'
+
+const exchangeClock = new Intl.DateTimeFormat('en-US', {
+  timeZone: EXCHANGE_TIME_ZONE,
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+})
+
+// Convert an "HH:MM" string to minutes after midnight
+export function parseClockTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Minutes after midnight back to an "HH:MM" string
+export function formatClockTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+// Minutes after midnight in exchange time for a millisecond timestamp
+export function getExchangeMinuteOfDay(timestamp: number): number {
+  const parts = exchangeClock.formatToParts(new Date(timestamp))
+  const hour = Number(parts.find(part => part.type === 'hour')?.value || 0)
+  const minute = Number(parts.find(part => part.type === 'minute')?.value || 0)
+  return hour * 60 + minute
+}
+
+const exchangeDate = new Intl.DateTimeFormat('en-CA', {
+  timeZone: EXCHANGE_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+})
+
+// Exchange-time calendar date ("YYYY-MM-DD") for a millisecond timestamp
+export function getExchangeDateKey(timestamp: number): string {
+  return exchangeDate.format(new Date(timestamp))
+}
+
+// Calendar dates ("YYYY-MM-DD") from start to end inclusive
+// Range inputs are date-only values (UTC midnight), so their UTC date is the intended day
+export function getCalendarDateKeys(start: Date, end: Date): string[] {
+  const keys: string[] = []
+  const current = new Date(start.toISOString().split('T')[0])
+  const last = end.toISOString().split('T')[0]
+
+  while (current.toISOString().split('T')[0] <= last) {
+    keys.push(current.toISOString().split('T')[0])
+    current.setUTCDate(current.getUTCDate() + 1)
+  }
+  return keys
+}
+
+// Day of the week (0 = Sunday) for a "YYYY-MM-DD" date
+export function getDayOfWeek(dateKey: string): number {
+  return new Date(`${dateKey}T12:00:00Z`).getUTCDay()
+}
+
+// Whether a bar falls inside an "HH:MM"-"HH:MM" exchange-time window (end exclusive)
+export function isWithinSession(timestamp: number, session: { start: string; end: string }): boolean {
+  const minute = getExchangeMinuteOfDay(timestamp)
+  return minute >= parseClockTime(session.start) && minute < parseClockTime(session.end)
+}
+
+// Bars bucketed by their exchange-time calendar date, in their original order
+export function groupBarsByExchangeDate(bars: PolygonBar[]): Map<string, PolygonBar[]> {
+  const days = new Map<string, PolygonBar[]>()
+  for (const bar of bars) {
+    const key = getExchangeDateKey(bar.t)
+    const day = days.get(key)
+    if (day) day.push(bar)
+    else days.set(key, [bar])
+  }
+  return days
+}
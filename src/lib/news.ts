@@ -0,0 +1,167 @@
+// News event sources for news-driven entries and news blackouts
+import { fetchTickerNews } from './polygon'
+
+export const DEFAULT_NEWS_FILE = '/data/news.json'
+
+export interface NewsEvent {
+  ticker: string
+  timestamp: number // milliseconds since epoch
+  headline: string
+  source?: string
+}
+
+export interface NewsSource {
+  getEvents(ticker: string, from: Date, to: Date): Promise<NewsEvent[]>
+}
+
+interface RawNewsEvent {
+  ticker?: string
+  timestamp: string | number
+  headline: string
+  source?: string
+}
+
+function toNewsEvent(raw: RawNewsEvent, ticker?: string): NewsEvent | null {
+  const timestamp = typeof raw.timestamp === 'number' ? raw.timestamp : Date.parse(raw.timestamp)
+  const eventTicker = (raw.ticker || ticker || '').toUpperCase()
+  if (!eventTicker || isNaN(timestamp)) return null
+
+  return { ticker: eventTicker, timestamp, headline: raw.headline || '', source: raw.source }
+}
+
+// Accepts either an array of events or an object of events keyed by ticker
+export function parseNewsJson(text: string): NewsEvent[] {
+  const data = JSON.parse(text) as RawNewsEvent[] | Record<string, RawNewsEvent[]>
+  const entries: [RawNewsEvent, string | undefined][] = Array.isArray(data)
+    ? data.map(raw => [raw, undefined])
+    : Object.entries(data).flatMap(([ticker, events]) => events.map(raw => [raw, ticker] as [RawNewsEvent, string]))
+
+  return entries
+    .map(([raw, ticker]) => toNewsEvent(raw, ticker))
+    .filter((event): event is NewsEvent => event !== null)
+}
+
+// Split one CSV line, honoring double-quoted fields that contain commas
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else {
+        quoted = !quoted
+      }
+    } else if (char === ',' && !quoted) {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields.map(value => value.trim())
+}
+
+// Expects a header row with ticker, timestamp and headline columns (source optional)
+export function parseNewsCsv(text: string): NewsEvent[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0)
+  if (lines.length === 0) return []
+
+  const header = splitCsvLine(lines[0]).map(column => column.toLowerCase())
+  const column = (name: string) => header.indexOf(name)
+
+  return lines.slice(1)
+    .map(line => {
+      const fields = splitCsvLine(line)
+      return toNewsEvent({
+        ticker: fields[column('ticker')],
+        timestamp: fields[column('timestamp')],
+        headline: fields[column('headline')],
+        source: column('source') >= 0 ? fields[column('source')] : undefined
+      })
+    })
+    .filter((event): event is NewsEvent => event !== null)
+}
+
+// Reads a JSON or CSV timeline served alongside the app (e.g. from /public)
+export class LocalNewsSource implements NewsSource {
+  private url: string
+  private events: Promise<NewsEvent[]> | null = null
+
+  constructor(url: string = DEFAULT_NEWS_FILE) {
+    this.url = url
+  }
+
+  async getEvents(ticker: string, from: Date, to: Date): Promise<NewsEvent[]> {
+    const events = await this.loadEvents()
+    const symbol = ticker.toUpperCase()
+    return events.filter(event =>
+      event.ticker === symbol && event.timestamp >= from.getTime() && event.timestamp <= to.getTime()
+    )
+  }
+
+  private loadEvents(): Promise<NewsEvent[]> {
+    if (!this.events) {
+      this.events = fetch(this.url)
+        .then(async response => {
+          if (!response.ok) {
+            console.log(`No news timeline at ${this.url} (status ${response.status})`)
+            return []
+          }
+          const text = await response.text()
+          const events = this.url.toLowerCase().endsWith('.csv') ? parseNewsCsv(text) : parseNewsJson(text)
+          return events.sort((a, b) => a.timestamp - b.timestamp)
+        })
+        .catch(error => {
+          console.error(`Failed to load news timeline from ${this.url}:`, error)
+          return []
+        })
+    }
+    return this.events
+  }
+}
+
+// Uses Polygon's reference news endpoint; publish time stands in for the event time
+export class PolygonNewsSource implements NewsSource {
+  async getEvents(ticker: string, from: Date, to: Date): Promise<NewsEvent[]> {
+    const until = new Date(to)
+    until.setDate(until.getDate() + 1) // published_utc.lte on a date means midnight
+    const articles = await fetchTickerNews(ticker, from.toISOString().split('T')[0], until.toISOString().split('T')[0])
+
+    return articles
+      .map(article => ({
+        ticker: ticker.toUpperCase(),
+        timestamp: Date.parse(article.published_utc),
+        headline: article.title,
+        source: article.publisher?.name
+      }))
+      .filter(event => !isNaN(event.timestamp))
+      .sort((a, b) => a.timestamp - b.timestamp)
+  }
+}
+
+// Picks the news source configured through NEXT_PUBLIC_NEWS_SOURCE ("local" or "polygon")
+export function createNewsSource(): NewsSource {
+  return process.env.NEXT_PUBLIC_NEWS_SOURCE === 'polygon' ? new PolygonNewsSource() : new LocalNewsSource()
+}
+
+// Most recent event at or before `timestamp`, if any
+export function findLatestEvent(events: NewsEvent[], timestamp: number): NewsEvent | null {
+  let latest: NewsEvent | null = null
+  for (const event of events) {
+    if (event.timestamp > timestamp) break
+    latest = event
+  }
+  return latest
+}
+
+// True when any event lies within `minutes` before or after `timestamp`
+export function isWithinNewsWindow(events: NewsEvent[], timestamp: number, minutes: number): boolean {
+  const windowMs = minutes * 60 * 1000
+  return events.some(event => Math.abs(event.timestamp - timestamp) <= windowMs)
+}
@@ -0,0 +1,218 @@
+// Order-book-less broker simulator: orders execute against bar prices and volume
+import { OrderEvent, OrderRole, OrderSide, OrderStatus, OrderType, TimeInForce } from '@/types/strategy'
+
+// Share of a bar's volume one order may take when no limit is configured
+export const DEFAULT_MAX_PARTICIPATION = 10 // percent
+
+export interface OrderRequest {
+  side: OrderSide
+  type: OrderType
+  quantity: number
+  limitPrice?: number
+  stopPrice?: number
+  timeInForce?: TimeInForce // defaults to day
+}
+
+export interface Order extends OrderRequest {
+  id: string
+  ticker: string
+  timeInForce: TimeInForce
+  submittedAt: number
+  status: OrderStatus
+  filledQuantity: number
+  triggered: boolean // stop and stop-limit orders once the stop price has traded
+  barsWorked: number // bars the order has been evaluated against
+}
+
+// The part of a bar's trading an order can see: a full bar, or a single price at submission
+export interface ExecutionWindow {
+  o: number
+  h: number
+  l: number
+  v: number
+}
+
+export interface OrderExecution {
+  price: number
+  quantity: number
+}
+
+// Protective stop and profit target attached to a position; with `oco` a fill of one cancels the other,
+// otherwise the target is a scale-out that only shrinks the stop
+export interface Bracket {
+  stop: Order
+  target: Order | null
+  oco: boolean
+}
+
+// Reg NMS minimum increments: a penny at $1 and above, $0.0001 below
+export function getTickSize(price: number): number {
+  return price >= 1 ? 0.01 : 0.0001
+}
+
+export function roundToTick(price: number, mode: 'nearest' | 'up' | 'down' = 'nearest'): number {
+  const tick = getTickSize(price)
+  const ticks = price / tick
+  // Guard against float noise like 100.00000000001 rounding up a whole tick
+  const rounded = mode === 'up' ? Math.ceil(ticks - 1e-9) : mode === 'down' ? Math.floor(ticks + 1e-9) : Math.round(ticks)
+  return Number((rounded * tick).toFixed(4))
+}
+
+export function createOrder(id: string, ticker: string, request: OrderRequest, submittedAt: number): Order {
+  return {
+    ...request,
+    id,
+    ticker,
+    limitPrice: request.limitPrice !== undefined ? roundToTick(request.limitPrice) : undefined,
+    stopPrice: request.stopPrice !== undefined ? roundToTick(request.stopPrice) : undefined,
+    timeInForce: request.timeInForce || 'day',
+    submittedAt,
+    status: 'open',
+    filledQuantity: 0,
+    triggered: request.type === 'market' || request.type === 'limit',
+    barsWorked: 0
+  }
+}
+
+export function isOrderWorking(order: Order): boolean {
+  return order.status === 'open' || order.status === 'partially_filled'
+}
+
+export function cancelOrder(order: Order, status: 'cancelled' | 'expired' = 'cancelled'): void {
+  if (isOrderWorking(order)) order.status = status
+}
+
+// Change a working order's size or prices; false when nothing changed
+export function modifyOrder(order: Order, changes: Partial<Pick<Order, 'quantity' | 'limitPrice' | 'stopPrice'>>): boolean {
+  if (!isOrderWorking(order)) return false
+
+  const quantity = changes.quantity ?? order.quantity
+  const limitPrice = changes.limitPrice !== undefined ? roundToTick(changes.limitPrice) : order.limitPrice
+  const stopPrice = changes.stopPrice !== undefined ? roundToTick(changes.stopPrice) : order.stopPrice
+  if (quantity === order.quantity && limitPrice === order.limitPrice && stopPrice === order.stopPrice) return false
+
+  order.quantity = quantity
+  order.limitPrice = limitPrice
+  order.stopPrice = stopPrice
+  if (order.filledQuantity >= order.quantity) order.status = 'filled'
+  return true
+}
+
+// Protective stop plus an optional limit target on the opposite side of an entry
+export function createBracket(
+  id: string,
+  ticker: string,
+  entrySide: OrderSide,
+  quantity: number,
+  stopPrice: number,
+  target: { price: number; quantity: number } | null,
+  submittedAt: number
+): Bracket {
+  const side: OrderSide = entrySide === 'buy' ? 'sell' : 'buy'
+  return {
+    stop: createOrder(`${id}-stop`, ticker, { side, type: 'stop', quantity, stopPrice }, submittedAt),
+    target: target
+      ? createOrder(`${id}-target`, ticker, { side, type: 'limit', quantity: target.quantity, limitPrice: target.price }, submittedAt)
+      : null,
+    // A target for the whole position is one-cancels-other with the stop
+    oco: target !== null && target.quantity >= quantity
+  }
+}
+
+// Add the target leg to a bracket that went out without one, e.g. a scale-out too small to place on the first fill
+export function addBracketTarget(bracket: Bracket, id: string, target: { price: number; quantity: number }, submittedAt: number): Order {
+  const { side, ticker } = bracket.stop
+  bracket.target = createOrder(`${id}-target`, ticker, { side, type: 'limit', quantity: target.quantity, limitPrice: target.price }, submittedAt)
+  bracket.oco = target.quantity >= bracket.stop.quantity
+  return bracket.target
+}
+
+// Book a fill of one bracket leg; returns the sibling order it cancelled under OCO
+export function fillBracketLeg(bracket: Bracket, leg: 'stop' | 'target', quantity: number): Order | null {
+  const order = leg === 'stop' ? bracket.stop : bracket.target
+  const sibling = leg === 'stop' ? bracket.target : bracket.stop
+  if (!order) return null
+
+  order.filledQuantity += quantity
+  order.status = order.filledQuantity >= order.quantity ? 'filled' : 'partially_filled'
+
+  if (!sibling || !isOrderWorking(sibling)) return null
+  if (bracket.oco || leg === 'stop') {
+    cancelOrder(sibling)
+    return sibling
+  }
+  // A scale-out leaves the stop protecting what is left
+  modifyOrder(sibling, { quantity: sibling.quantity - quantity })
+  return null
+}
+
+export function createOrderEvent(
+  order: Order,
+  role: OrderRole,
+  event: OrderEvent['event'],
+  time: number,
+  fill?: OrderExecution,
+  note?: string
+): OrderEvent {
+  return {
+    time: new Date(time),
+    orderId: order.id,
+    role,
+    type: order.type,
+    event,
+    price: fill ? fill.price : order.limitPrice ?? order.stopPrice,
+    quantity: fill ? fill.quantity : order.quantity,
+    note
+  }
+}
+
+// Price the order fills at inside the window, or null if it cannot fill there
+function getExecutionPrice(order: Order, window: ExecutionWindow): number | null {
+  const isBuy = order.side === 'buy'
+
+  // Stops trigger once the stop price trades, then work as market (stop) or limit (stop-limit) orders
+  let marketPrice = window.o
+  if (!order.triggered && order.stopPrice !== undefined) {
+    const touched = isBuy ? window.h >= order.stopPrice : window.l <= order.stopPrice
+    if (!touched) return null
+    order.triggered = true
+    // Gaps through the stop fill at the open, otherwise at the stop
+    marketPrice = isBuy ? Math.max(window.o, order.stopPrice) : Math.min(window.o, order.stopPrice)
+  }
+
+  if (order.type === 'market' || order.type === 'stop') {
+    return marketPrice
+  }
+
+  // Limits fill at the limit or better once price reaches it
+  const limit = order.limitPrice as number
+  if (isBuy ? window.l > limit : window.h < limit) return null
+  return isBuy ? Math.min(marketPrice, limit) : Math.max(marketPrice, limit)
+}
+
+// Executes a working order against one window, honoring time in force and the participation cap
+export function executeOrder(order: Order, window: ExecutionWindow, maxParticipation: number = DEFAULT_MAX_PARTICIPATION): OrderExecution | null {
+  if (!isOrderWorking(order)) return null
+  order.barsWorked++
+
+  const remaining = order.quantity - order.filledQuantity
+  const available = Math.floor(window.v * maxParticipation / 100)
+  const quantity = Math.min(remaining, available)
+  const price = getExecutionPrice(order, window)
+
+  // Fill-or-kill needs the whole order now; immediate-or-cancel takes what it can and cancels the rest
+  if (order.timeInForce === 'fok' && (price === null || quantity < remaining)) {
+    cancelOrder(order)
+    return null
+  }
+  if (price === null || quantity <= 0) {
+    if (order.timeInForce === 'ioc') cancelOrder(order)
+    return null
+  }
+
+  order.filledQuantity += quantity
+  order.status = order.filledQuantity >= order.quantity ? 'filled' : 'partially_filled'
+  if (order.timeInForce === 'ioc') cancelOrder(order)
+
+  return { price, quantity }
+}
@@ -14,6 +14,7 @@ export interface PolygonBar {
   l: number // low
   c: number // close
   v: number // volume
+  vw?: number // volume-weighted average price
   t: number // timestamp
 }
 
@@ -39,19 +40,54 @@ export interface TickerInfo {
   last_updated_utc: string
 }
 
+export interface PolygonNewsArticle {
+  id: string
+  title: string
+  published_utc: string
+  tickers: string[]
+  article_url: string
+  publisher?: { name: string }
+}
+
+// NBBO quote from the v3 quotes endpoint
+export interface PolygonNBBOQuote {
+  bid_price: number
+  bid_size: number
+  ask_price: number
+  ask_size: number
+  sip_timestamp: number // nanoseconds since epoch
+}
+
 // Fetch minute-by-minute data for backtesting
 // Rate limiting helper
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
+// Ranges larger than one response are paged; follow next_url until the range is complete
+async function fetchRemainingPages(nextUrl: string): Promise<PolygonBar[]> {
+  const bars: PolygonBar[] = []
+  let url: string | undefined = nextUrl
+
+  while (url) {
+    const response = await fetch(`${url}&apikey=${POLYGON_API_KEY}`)
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+    const page: PolygonResponse = await response.json()
+    bars.push(...(page.results || []))
+    url = page.next_url
+  }
+  return bars
+}
+
 export async function fetchMinuteData(
   ticker: string,
   from: string,
   to: string,
   multiplier: number = 1,
-  timespan: 'minute' | 'hour' | 'day' = 'minute',
+  timespan: 'second' | 'minute' | 'hour' | 'day' = 'minute',
   retryCount: number = 0
 ): Promise<PolygonBar[]> {
-  const url = `${POLYGON_BASE_URL}/v2/aggs/ticker/${ticker}/range/${multiplier}/${timespan}/${from}/${to}?adjusted=true&sort=asc&apikey=${POLYGON_API_KEY}`
+  const url = `${POLYGON_BASE_URL}/v2/aggs/ticker/${ticker}/range/${multiplier}/${timespan}/${from}/${to}?adjusted=true&sort=asc&limit=50000&apikey=${POLYGON_API_KEY}`
   
   console.log(`Fetching ${ticker} data from ${from} to ${to} (attempt ${retryCount + 1})`)
   
@@ -82,13 +118,53 @@ export async function fetchMinuteData(
       throw new Error(`Polygon API error: ${data.status}`)
     }
     
-    return data.results || []
+    const results = data.results || []
+    if (data.next_url) {
+      results.push(...await fetchRemainingPages(data.next_url))
+    }
+    return results
   } catch (error) {
     console.error(`Error fetching data for ${ticker}:`, error)
     throw error
   }
 }
 
+// Quote lookups come once per decision, so they are spaced out to stay under the rate limit
+const QUOTE_REQUEST_INTERVAL_MS = 100
+let nextQuoteRequestAt = 0
+
+// Claims the next request slot synchronously, so concurrent callers queue up behind each other
+async function waitForQuoteSlot(): Promise<void> {
+  const now = Date.now()
+  const wait = nextQuoteRequestAt - now
+  nextQuoteRequestAt = Math.max(now, nextQuoteRequestAt) + QUOTE_REQUEST_INTERVAL_MS
+  if (wait > 0) await delay(wait)
+}
+
+// Latest NBBO quote at or before `timestamp` (milliseconds), or null when none is on record
+export async function fetchLatestQuote(ticker: string, timestamp: number, retryCount: number = 0): Promise<PolygonNBBOQuote | null> {
+  // Nanosecond bound built as a string so it stays exact
+  const url = `${POLYGON_BASE_URL}/v3/quotes/${ticker}?timestamp.lte=${timestamp}000000&order=desc&sort=timestamp&limit=1&apikey=${POLYGON_API_KEY}`
+
+  try {
+    await waitForQuoteSlot()
+    const response = await fetch(url)
+    if (response.status === 429 && retryCount < 3) {
+      // Rate limited - back off the same way as aggregate requests
+      await delay(Math.pow(2, retryCount) * 1000)
+      return fetchLatestQuote(ticker, timestamp, retryCount + 1)
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+    const data = await response.json()
+    return data.results?.[0] || null
+  } catch (error) {
+    console.error(`Error fetching quote for ${ticker}:`, error)
+    return null
+  }
+}
+
 // Get ticker information
 export async function getTickerInfo(ticker: string): Promise<TickerInfo | null> {
   const url = `${POLYGON_BASE_URL}/v3/reference/tickers/${ticker}?apikey=${POLYGON_API_KEY}`
@@ -107,6 +183,24 @@ export async function getTickerInfo(ticker: string): Promise<TickerInfo | null>
   }
 }
 
+// Get news articles mentioning a ticker between two dates (YYYY-MM-DD)
+export async function fetchTickerNews(ticker: string, from: string, to: string): Promise<PolygonNewsArticle[]> {
+  const url = `${POLYGON_BASE_URL}/v2/reference/news?ticker=${ticker}&published_utc.gte=${from}&published_utc.lte=${to}&order=asc&limit=1000&apikey=${POLYGON_API_KEY}`
+  
+  try {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+    
+    const data = await response.json()
+    return data.results || []
+  } catch (error) {
+    console.error(`Error fetching news for ${ticker}:`, error)
+    return []
+  }
+}
+
 // Get top active stocks (for recommendations)
 export async function getTopActiveStocks(limit: number = 50): Promise<TickerInfo[]> {
   // Polygon API has a max limit of 1000 per request, so we'll fetch more to ensure we have enough
@@ -0,0 +1,48 @@
+// NBBO quote sources for spread filters and bid/ask fills
+import { fetchLatestQuote } from './polygon'
+
+// Quotes older than this at decision time are treated as missing
+const MAX_QUOTE_AGE_MS = 60 * 1000
+
+export interface Quote {
+  bid: number
+  ask: number
+  timestamp: number // milliseconds since epoch
+}
+
+export interface QuoteSource {
+  // Prevailing NBBO at `timestamp`, or null when no usable quote exists
+  getQuote(ticker: string, timestamp: number): Promise<Quote | null>
+}
+
+// Looks up the latest Polygon NBBO before each decision time; results are cached per ticker and time
+export class PolygonQuoteSource implements QuoteSource {
+  private cache = new Map<string, Promise<Quote | null>>()
+
+  getQuote(ticker: string, timestamp: number): Promise<Quote | null> {
+    const key = `${ticker}:${timestamp}`
+    let quote = this.cache.get(key)
+    if (!quote) {
+      quote = this.loadQuote(ticker, timestamp)
+      this.cache.set(key, quote)
+    }
+    return quote
+  }
+
+  private async loadQuote(ticker: string, timestamp: number): Promise<Quote | null> {
+    const nbbo = await fetchLatestQuote(ticker, timestamp)
+    if (!nbbo) return null
+
+    const quote = { bid: nbbo.bid_price, ask: nbbo.ask_price, timestamp: Math.floor(nbbo.sip_timestamp / 1e6) }
+    // Skip stale, one-sided and crossed markets
+    if (timestamp - quote.timestamp > MAX_QUOTE_AGE_MS || quote.bid <= 0 || quote.ask < quote.bid) {
+      return null
+    }
+    return quote
+  }
+}
+
+// Quotes are opt-in through NEXT_PUBLIC_QUOTE_SOURCE="polygon"; without them fills use a modelled spread
+export function createQuoteSource(): QuoteSource | undefined {
+  return process.env.NEXT_PUBLIC_QUOTE_SOURCE === 'polygon' ? new PolygonQuoteSource() : undefined
+}
@@ -0,0 +1,39 @@
+// Time-of-day relative volume: each bar's volume against the same minute in earlier sessions
+import { PolygonBar } from './polygon'
+import { getExchangeMinuteOfDay } from './marketHours'
+
+export const DEFAULT_RELATIVE_VOLUME_LOOKBACK = 10 // sessions
+
+// Session date -> exchange minute-of-day -> volume traded in that minute
+export type MinuteVolumeProfile = Map<string, Map<number, number>>
+
+// Built once per ticker from its bars grouped by exchange date
+export function buildMinuteVolumeProfile(barsByDay: Map<string, PolygonBar[]>): MinuteVolumeProfile {
+  const profile: MinuteVolumeProfile = new Map()
+  barsByDay.forEach((bars, dayKey) => {
+    profile.set(dayKey, new Map(bars.map(bar => [getExchangeMinuteOfDay(bar.t), bar.v])))
+  })
+  return profile
+}
+
+// Each bar's volume over the average for its minute across up to `lookback` prior sessions
+// Minutes nobody traded count as zero volume; NaN when there is no baseline to compare with
+export function calculateRelativeVolumeSeries(
+  profile: MinuteVolumeProfile,
+  dayKey: string,
+  bars: PolygonBar[],
+  lookback: number = DEFAULT_RELATIVE_VOLUME_LOOKBACK
+): number[] {
+  const priorSessions = Array.from(profile.keys())
+    .filter(key => key < dayKey)
+    .sort()
+    .slice(-lookback)
+    .map(key => profile.get(key)!)
+
+  return bars.map(bar => {
+    if (priorSessions.length === 0) return NaN
+    const minute = getExchangeMinuteOfDay(bar.t)
+    const average = priorSessions.reduce((sum, session) => sum + (session.get(minute) || 0), 0) / priorSessions.length
+    return average > 0 ? bar.v / average : NaN
+  })
+}
@@ -0,0 +1,39 @@
+// Breakout: trade range breaks with volume confirmation
+import { calculateATRSeries } from '../indicators'
+import { DEFAULT_OPENING_RANGE_MINUTES, evaluateEntryTrigger } from '../entryTriggers'
+import { StrategyModule } from './types'
+
+const ATR_PERIOD = 14
+
+export interface BreakoutState {
+  atr: number[]
+}
+
+export const breakoutStrategy: StrategyModule<BreakoutState> = {
+  type: 'breakout',
+  warmupBars: ATR_PERIOD + 1,
+  parameterSchema: [
+    { key: 'entryConditions.entryTrigger', label: 'Entry Trigger', type: 'select', defaultValue: 'or_break', options: ['or_break', 'consolidation_break'] },
+    { key: 'entryConditions.openingRangeMinutes', label: 'Opening Range (min)', type: 'number', defaultValue: DEFAULT_OPENING_RANGE_MINUTES, min: 1, max: 60 },
+    { key: 'entryConditions.minRangeExpansion', label: 'Min Range Expansion (x ATR)', type: 'number', defaultValue: 0.5 }
+  ],
+
+  setupDay({ bars }) {
+    return { atr: calculateATRSeries(bars, ATR_PERIOD) }
+  },
+
+  shouldEnter(context, index) {
+    const { bars, params, state } = context
+    const current = bars[index]
+    const atr = state.atr[index - 1] // volatility before the breakout bar
+
+    // The breakout bar itself has to expand relative to recent volatility
+    const minRangeExpansion = params.entryConditions?.minRangeExpansion || 0.5
+    if (atr <= 0 || current.h - current.l < atr * minRangeExpansion) {
+      return null
+    }
+
+    // Opening range or consolidation box, sized with the same minute ATR
+    return evaluateEntryTrigger(context, index, params.entryConditions?.entryTrigger || 'or_break', atr)
+  }
+}
@@ -0,0 +1,60 @@
+// Gap & Go: trade continuation of stocks that gap at the open
+import { TradeSide } from '@/types/strategy'
+import { getExchangeMinuteOfDay, parseClockTime, REGULAR_SESSION_OPEN } from '../marketHours'
+import { StrategyModule } from './types'
+
+export interface GapAndGoState {
+  side: TradeSide | null // gap direction that passed the gap and pre-market volume filters
+  gapPercent: number
+  premarketHigh: number | null
+  premarketLow: number | null
+  premarketVolume: number
+}
+
+export const gapAndGoStrategy: StrategyModule<GapAndGoState> = {
+  type: 'gap-and-go',
+  warmupBars: 1,
+  parameterSchema: [
+    { key: 'entryConditions.minGapPercent', label: 'Minimum Gap (%)', type: 'number', defaultValue: 4, min: 1, max: 50 },
+    { key: 'entryConditions.minPremarketVolume', label: 'Minimum Pre-Market Volume', type: 'number', defaultValue: 100000, min: 0 }
+  ],
+
+  setupDay({ bars, premarketBars, previousClose, params }) {
+    const regularOpen = parseClockTime(REGULAR_SESSION_OPEN)
+    const openingBar = bars.find(bar => getExchangeMinuteOfDay(bar.t) >= regularOpen)
+    const premarketHigh = premarketBars.length > 0 ? Math.max(...premarketBars.map(bar => bar.h)) : null
+    const premarketLow = premarketBars.length > 0 ? Math.min(...premarketBars.map(bar => bar.l)) : null
+    const premarketVolume = premarketBars.reduce((sum, bar) => sum + bar.v, 0)
+
+    if (!openingBar || !previousClose || premarketHigh === null) {
+      return { side: null, gapPercent: 0, premarketHigh, premarketLow, premarketVolume }
+    }
+
+    const gapPercent = ((openingBar.o - previousClose) / previousClose) * 100
+    const minGapPercent = params.entryConditions?.minGapPercent || 4
+    const minPremarketVolume = params.entryConditions?.minPremarketVolume || 100000
+
+    let side: TradeSide | null = null
+    if (premarketVolume >= minPremarketVolume) {
+      if (gapPercent >= minGapPercent) side = 'long'
+      else if (gapPercent <= -minGapPercent) side = 'short'
+    }
+
+    return { side, gapPercent, premarketHigh, premarketLow, premarketVolume }
+  },
+
+  // Gap ups enter on the first close above the pre-market high, gap downs below the pre-market low
+  shouldEnter({ bars, state }, index) {
+    const current = bars[index]
+    const prev = bars[index - 1]
+    if (getExchangeMinuteOfDay(current.t) < parseClockTime(REGULAR_SESSION_OPEN)) return null
+
+    if (state.side === 'long' && state.premarketHigh !== null) {
+      return current.c > state.premarketHigh && prev.c <= state.premarketHigh ? 'long' : null
+    }
+    if (state.side === 'short' && state.premarketLow !== null) {
+      return current.c < state.premarketLow && prev.c >= state.premarketLow ? 'short' : null
+    }
+    return null
+  }
+}
@@ -0,0 +1,45 @@
+// Registry of strategy modules keyed by StrategyType
+import { StrategyParameters, StrategyType } from '@/types/strategy'
+import { StrategyModule } from './types'
+import { microscalpingStrategy } from './microscalping'
+import { momentumStrategy } from './momentum'
+import { meanReversionStrategy } from './meanReversion'
+import { breakoutStrategy } from './breakout'
+import { gapAndGoStrategy } from './gapAndGo'
+import { newsScalpingStrategy } from './newsScalping'
+
+export type { StrategyModule, StrategyDayContext, StrategyParameterField } from './types'
+
+// Each module's state type stays private to it; the engine only hands state back to the module that made it
+const registry = new Map<StrategyType, StrategyModule<unknown>>()
+
+export function registerStrategyModule<TState>(module: StrategyModule<TState>): void {
+  registry.set(module.type, module as StrategyModule<unknown>)
+}
+
+export function getStrategyModule(type: StrategyType): StrategyModule<unknown> | undefined {
+  return registry.get(type)
+}
+
+// Parameters the strategy leaves unset take its module's schema defaults, the values the settings modal shows
+export function applyParameterDefaults(type: StrategyType, parameters: StrategyParameters): StrategyParameters {
+  const withDefaults: Record<string, unknown> = { ...parameters }
+  for (const field of registry.get(type)?.parameterSchema || []) {
+    const [group, key] = field.key.split('.')
+    if (!key) {
+      if (withDefaults[group] === undefined) withDefaults[group] = field.defaultValue
+      continue
+    }
+    const nested: Record<string, unknown> = { ...(withDefaults[group] as Record<string, unknown> | undefined) }
+    if (nested[key] === undefined) nested[key] = field.defaultValue
+    withDefaults[group] = nested
+  }
+  return withDefaults as unknown as StrategyParameters
+}
+
+registerStrategyModule(microscalpingStrategy)
+registerStrategyModule(momentumStrategy)
+registerStrategyModule(meanReversionStrategy)
+registerStrategyModule(breakoutStrategy)
+registerStrategyModule(gapAndGoStrategy)
+registerStrategyModule(newsScalpingStrategy)
@@ -0,0 +1,32 @@
+// Mean reversion: fade price when it is stretched away from its moving average
+import { calculateSMASeries } from '../indicators'
+import { StrategyModule } from './types'
+
+const SMA_PERIOD = 20
+const ENTRY_DISTANCE = 0.02 // 2% away from the SMA
+
+export interface MeanReversionState {
+  sma: number[]
+}
+
+export const meanReversionStrategy: StrategyModule<MeanReversionState> = {
+  type: 'mean-reversion',
+  warmupBars: SMA_PERIOD,
+  parameterSchema: [
+    { key: 'stopLoss', label: 'Stop Loss (%)', type: 'number', defaultValue: 1.5 },
+    { key: 'takeProfit', label: 'Take Profit (%)', type: 'number', defaultValue: 2 }
+  ],
+
+  setupDay({ bars }) {
+    return { sma: calculateSMASeries(bars.map(bar => bar.c), SMA_PERIOD) }
+  },
+
+  shouldEnter({ bars, state }, index) {
+    const current = bars[index]
+    const sma = state.sma[index - 1] // average of the bars before this one
+
+    if (current.c < sma * (1 - ENTRY_DISTANCE)) return 'long'
+    if (current.c > sma * (1 + ENTRY_DISTANCE)) return 'short'
+    return null
+  }
+}
@@ -0,0 +1,29 @@
+// Micro scalping: quick momentum bursts on a volume spike
+import { DEFAULT_VWAP_BAND_WIDTH, evaluateEntryTrigger } from '../entryTriggers'
+import { DEFAULT_RELATIVE_VOLUME_LOOKBACK } from '../relativeVolume'
+import { StrategyModule } from './types'
+
+export const microscalpingStrategy: StrategyModule<null> = {
+  type: 'microscalping',
+  warmupBars: 20,
+  parameterSchema: [
+    { key: 'riskPerTrade', label: 'Risk Per Trade ($)', type: 'number', defaultValue: 150, min: 1 },
+    { key: 'stopLossDollar', label: 'Stop Loss ($)', type: 'number', defaultValue: 0.03, min: 0.01, max: 1 },
+    { key: 'takeProfitDollar', label: 'Take Profit ($)', type: 'number', defaultValue: 0.10, min: 0.01, max: 2 },
+    { key: 'entryConditions.relativeVolume', label: 'Relative Volume', type: 'number', defaultValue: 1.3 },
+    { key: 'entryConditions.relativeVolumeLookback', label: 'Relative Volume Lookback (sessions)', type: 'number', defaultValue: DEFAULT_RELATIVE_VOLUME_LOOKBACK, min: 1, max: 30 },
+    { key: 'entryConditions.entryTrigger', label: 'Entry Trigger', type: 'select', defaultValue: 'vwap_cross', options: ['vwap_cross', 'break_high', 'break_low', 'vwap_band_fade'] },
+    { key: 'entryConditions.breakoutBuffer', label: 'Breakout Buffer ($)', type: 'number', defaultValue: 0.01, min: 0 },
+    { key: 'entryConditions.vwapBandWidth', label: 'VWAP Band Width (SD)', type: 'number', defaultValue: DEFAULT_VWAP_BAND_WIDTH, min: 0.5, max: 4 },
+    { key: 'entryConditions.maxSpread', label: 'Max Spread ($)', type: 'number', defaultValue: 0.02 }
+  ],
+
+  setupDay() {
+    return null
+  },
+
+  // Relative volume is screened by the engine; the trigger decides the side
+  shouldEnter(context, index) {
+    return evaluateEntryTrigger(context, index, context.params.entryConditions?.entryTrigger || 'vwap_cross')
+  }
+}
@@ -0,0 +1,30 @@
+// Momentum: ride strong moves confirmed by rising volume
+import { DEFAULT_OPENING_RANGE_MINUTES, evaluateEntryTrigger } from '../entryTriggers'
+import { DEFAULT_RELATIVE_VOLUME_LOOKBACK } from '../relativeVolume'
+import { StrategyModule } from './types'
+
+export const momentumStrategy: StrategyModule<null> = {
+  type: 'momentum',
+  warmupBars: 20,
+  parameterSchema: [
+    { key: 'stopLossATR', label: 'Stop ATR Multiplier', type: 'number', defaultValue: 1.2, min: 0.5, max: 3 },
+    { key: 'stopLossATRTimeframe', label: 'Stop ATR Timeframe', type: 'select', defaultValue: 'intraday', options: ['intraday', 'daily'] },
+    { key: 'takeProfitMode', label: 'Profit Mode', type: 'select', defaultValue: 'partial_trail', options: ['partial_trail', 'fixed'] },
+    { key: 'partialTakePercent', label: 'Partial Take Percent (%)', type: 'number', defaultValue: 50, min: 25, max: 75 },
+    { key: 'entryConditions.relativeVolume', label: 'Relative Volume', type: 'number', defaultValue: 1.75 },
+    { key: 'entryConditions.relativeVolumeLookback', label: 'Relative Volume Lookback (sessions)', type: 'number', defaultValue: DEFAULT_RELATIVE_VOLUME_LOOKBACK, min: 1, max: 30 },
+    { key: 'entryConditions.entryTrigger', label: 'Entry Trigger', type: 'select', defaultValue: 'or_break', options: ['or_break', 'consolidation_break', 'vwap_reclaim'] },
+    { key: 'entryConditions.openingRangeMinutes', label: 'Opening Range (min)', type: 'number', defaultValue: DEFAULT_OPENING_RANGE_MINUTES, min: 1, max: 60 },
+    { key: 'entryConditions.maxVWAPExtension', label: 'Max VWAP Extension (ATR)', type: 'number', defaultValue: 2.5 },
+    { key: 'exitConditions.trailMethod', label: 'Trail Method', type: 'select', defaultValue: 'vwap', options: ['vwap', 'ema9', 'atr_pullback'] }
+  ],
+
+  setupDay() {
+    return null
+  },
+
+  // Relative volume is screened by the engine; the trigger decides the side
+  shouldEnter(context, index) {
+    return evaluateEntryTrigger(context, index, context.params.entryConditions?.entryTrigger || 'or_break')
+  }
+}
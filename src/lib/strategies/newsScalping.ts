@@ -0,0 +1,42 @@
+// News scalping: quick trades on the first push after a headline
+import { findLatestEvent } from '../news'
+import { StrategyModule } from './types'
+
+const PRE_EVENT_BARS = 5 // bars before the headline used as the volume/price baseline
+const MIN_VOLUME_SURGE = 2 // reaction bar volume vs pre-event average
+
+export const newsScalpingStrategy: StrategyModule<null> = {
+  type: 'news-scalping',
+  warmupBars: PRE_EVENT_BARS,
+  tradesNews: true,
+  parameterSchema: [
+    { key: 'entryConditions.newsReactionMinutes', label: 'News Reaction Window (min)', type: 'number', defaultValue: 5, min: 1, max: 60 }
+  ],
+
+  setupDay() {
+    return null
+  },
+
+  shouldEnter({ bars, news, params }, index) {
+    const current = bars[index]
+    const prev = bars[index - 1]
+    const event = findLatestEvent(news, current.t)
+    if (!event) return null
+
+    const reactionMinutes = params.entryConditions?.newsReactionMinutes || 5
+    if (current.t - event.timestamp > reactionMinutes * 60 * 1000) return null
+
+    // Baseline from the bars just before the headline hit
+    const preEventBars = bars.filter(bar => bar.t < event.timestamp).slice(-PRE_EVENT_BARS)
+    if (preEventBars.length === 0) return null
+
+    const baselineVolume = preEventBars.reduce((sum, bar) => sum + bar.v, 0) / preEventBars.length
+    const preEventClose = preEventBars[preEventBars.length - 1].c
+    if (current.v <= baselineVolume * MIN_VOLUME_SURGE) return null
+
+    // Trade in the direction the headline is moving the stock
+    if (current.c > preEventClose && current.c > prev.c) return 'long'
+    if (current.c < preEventClose && current.c < prev.c) return 'short'
+    return null
+  }
+}
@@ -0,0 +1,49 @@
+// Contract every strategy module implements so the engine can drive it generically
+import { PolygonBar } from '../polygon'
+import { NewsEvent } from '../news'
+import { OpeningRange } from '../entryTriggers'
+import { StrategyParameters, StrategyType, Trade, TradeSide } from '@/types/strategy'
+
+// Everything a strategy gets to see about one ticker on one trading day
+export interface StrategyDayContext<TState = unknown> {
+  ticker: string
+  date: Date
+  bars: PolygonBar[]
+  premarketBars: PolygonBar[] // extended-hours bars before the regular open
+  previousClose: number | null // last regular-session close before this day
+  news: NewsEvent[] // this ticker's events during the day, oldest first
+  vwap: number[] // session VWAP aligned with bars, anchored at the regular open
+  vwapStdDev: number[] // standard deviation around the VWAP, for the +/- SD bands (vwap_band_fade)
+  openingRange: OpeningRange | null // over entryConditions.openingRangeMinutes
+  relativeVolume: number[] // volume vs the same minute of prior sessions, NaN without a baseline
+  atr: number[] // intraday ATR aligned with bars, 0 until enough history exists
+  dailyATR: number | null // daily ATR from sessions before this day
+  params: StrategyParameters
+  state: TState
+}
+
+// Describes a parameter a strategy reads; unset parameters take these defaults when a backtest runs
+export interface StrategyParameterField {
+  key: string // dotted path into StrategyParameters, e.g. "entryConditions.entryTrigger"
+  label: string
+  type: 'number' | 'boolean' | 'select'
+  defaultValue: number | boolean | string
+  options?: string[] // allowed values for select fields
+  min?: number
+  max?: number
+}
+
+export interface StrategyModule<TState = unknown> {
+  type: StrategyType
+  // Bars required before the first entry can be evaluated
+  warmupBars: number
+  // News-driven strategies trade into headlines instead of sitting out avoidNewsMinutes
+  tradesNews?: boolean
+  parameterSchema: StrategyParameterField[]
+  // Called once per ticker per day before the bar loop; the result is handed back as context.state
+  setupDay(context: Omit<StrategyDayContext<TState>, 'state'>): TState
+  // Side to open on this bar, or null for no entry
+  shouldEnter(context: StrategyDayContext<TState>, index: number): TradeSide | null
+  // Strategy-specific exit on top of the engine's stop / target / time exits
+  shouldExit?(context: StrategyDayContext<TState>, position: Trade, index: number): Trade['reason'] | null
+}
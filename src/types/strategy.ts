@@ -21,9 +21,12 @@ export type StrategyType =
   | 'gap-and-go'
   | 'news-scalping'
 
+export type TradeSide = 'long' | 'short'
+
 export interface StrategyParameters {
   // Position sizing
   maxPositions: number
+  tradeDirection?: TradeSide | 'both' // which entry signals to take (defaults to long, as before shorts existed)
   positionSize: number // percentage of capital per trade (legacy)
   riskPerTrade: number // dollar amount risk per trade (new for scalping)
   maxDailyTrades: number
@@ -33,6 +36,7 @@ export interface StrategyParameters {
   stopLoss: number // percentage (legacy)
   stopLossDollar?: number // dollar amount stop loss (new for scalping)
   stopLossATR?: number // ATR multiplier for momentum (new for momentum)
+  stopLossATRTimeframe?: 'intraday' | 'daily' // ATR the stop multiplier applies to (default intraday)
   takeProfit: number // percentage (legacy)
   takeProfitDollar?: number // dollar amount take profit (new for scalping)
   takeProfitMode?: 'partial_trail' | 'fixed' // new for momentum
@@ -45,9 +49,17 @@ export interface StrategyParameters {
   entryConditions: EntryConditions
   exitConditions: ExitConditions
   
+  // Order handling
+  entryOrder?: EntryOrderSettings // defaults to a market order at the signal
+  maxVolumeParticipation?: number // % of a bar's volume an entry order can fill per bar (default 10)
+  fillTiming?: FillTiming // when orders decided on a bar's close reach the market (default next bar open)
+  intrabarRule?: IntrabarRule // which of stop and target fills when one bar touches both (default pessimistic)
+
   // Fees and costs
-  commissionPerTrade: number
-  slippageBuffer: number // percentage
+  commissionPerTrade: number // flat $ per order when no commission schedule is set
+  commission?: CommissionSchedule
+  slippageBuffer: number // percentage of price, the minimum slippage charged on every fill
+  slippageModel?: SlippageModel
   
   // Time-based filters
   tradingHours: {
@@ -61,12 +73,19 @@ export interface StrategyParameters {
 export interface EntryConditions {
   volumeThreshold: number // minimum volume (legacy)
   relativeVolume?: number // relative volume multiplier (new for scalping/momentum)
+  relativeVolumeLookback?: number // prior sessions averaged per minute-of-day for relativeVolume, default 10
   priceChangeThreshold: number // percentage
   technicalIndicators: TechnicalIndicator[]
-  entryTrigger?: 'vwap_cross' | 'break_high' | 'break_low' | 'or_break' | 'consolidation_break' | 'vwap_reclaim' // updated for momentum
+  entryTrigger?: 'vwap_cross' | 'break_high' | 'break_low' | 'or_break' | 'consolidation_break' | 'vwap_reclaim' | 'vwap_band_fade' // updated for momentum
   maxSpread?: number // maximum spread in dollars (new for scalping)
+  breakoutBuffer?: number // dollars a close must clear the last high/low by, default one tick (break_high/break_low)
+  vwapBandWidth?: number // standard deviations from VWAP to the bands, default 2 (vwap_band_fade)
   minRangeExpansion?: number // minimum range expansion % of ATR (new for momentum)
   maxVWAPExtension?: number // max ATR extension above VWAP (new for momentum)
+  openingRangeMinutes?: number // opening range window from the 09:30 open, default 15 (or_break)
+  minGapPercent?: number // minimum gap from prior close in % (new for gap-and-go)
+  minPremarketVolume?: number // minimum pre-market share volume (new for gap-and-go)
+  newsReactionMinutes?: number // minutes after a headline that entries are allowed (new for news-scalping)
 }
 
 export interface ExitConditions {
@@ -76,12 +95,83 @@ export interface ExitConditions {
   trailingStopPercent: number
   eodExit?: boolean // new for momentum - exit at end of day
   trailMethod?: 'vwap' | 'ema9' | 'atr_pullback' // new for momentum
+  breakevenAtR?: number // move the stop to the entry price once the trade is this many R in profit
+}
+
+export type OrderSide = 'buy' | 'sell'
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit'
+// day: works until the session ends, ioc: fills what it can on its first bar, fok: all at once or nothing
+export type TimeInForce = 'day' | 'ioc' | 'fok'
+export type OrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired'
+// exit: market orders for time, strategy and end-of-day exits outside the bracket
+export type OrderRole = 'entry' | 'stop' | 'target' | 'exit'
+
+// One change to an order over a trade's life
+export interface OrderEvent {
+  time: Date
+  orderId: string
+  role: OrderRole
+  type: OrderType
+  event: 'submitted' | 'modified' | 'partially_filled' | 'filled' | 'cancelled' | 'expired'
+  price?: number // fill price for fills, otherwise the working limit or stop price
+  quantity: number // shares filled, or the order's size after the event
+  note?: string // what prompted it, e.g. 'breakeven' or 'oco'
+}
+
+// Decisions are made on a bar's close; this sets where the resulting market orders fill
+// latency: the price when the order reaches the exchange, from second aggregates
+export type FillTimingMode = 'same_bar_close' | 'next_bar_open' | 'next_bar_vwap' | 'latency'
+
+export interface FillTiming {
+  mode: FillTimingMode
+  decisionLatencyMs?: number // latency mode: time to act on a closed bar
+  routingLatencyMs?: number // latency mode: time for the order to reach the exchange
+}
+
+// How entry signals are turned into orders; offsets are dollars from the signal bar's close
+export interface EntryOrderSettings {
+  type: OrderType
+  limitOffset?: number // limit: how far on the passive side to rest; stop_limit: room beyond the stop (default 0)
+  stopOffset?: number // stop / stop_limit: how far through the signal price to trigger (default 0.01)
+  timeInForce?: TimeInForce // default day
+  expireAfterBars?: number // cancel an unfilled entry after this many bars
+}
+
+// Estimated execution cost beyond the fill price, charged on every fill
+export interface SlippageModel {
+  model: 'fixed_bps' | 'percent_of_spread' | 'square_root'
+  bps?: number // fixed_bps: basis points of price per fill (default 5)
+  spreadPercent?: number // percent_of_spread: share of the bid/ask spread paid on top of the mid (default 50)
+  impactCoefficient?: number // square_root: k in k * bar range / price * sqrt(shares / bar volume) (default 1)
+}
+
+// Commission charged on every order, entries and exits alike
+export interface CommissionSchedule {
+  model: 'per_share' | 'per_order' | 'tiered'
+  perShare?: number // per_share: $ per share (default 0.005)
+  perOrder?: number // per_order: flat $ per order (default commissionPerTrade)
+  minPerOrder?: number // per_share / tiered: minimum per order (default $1 / $0.35)
+  maxPercentOfValue?: number // per_share / tiered: cap as % of order value (default 1)
+  tiers?: CommissionTier[] // tiered: rates by shares already traded this month (IBKR tiers by default)
+  regulatoryFees?: boolean // SEC fee and FINRA TAF on sells (default true)
+  secFeeRate?: number // $ SEC fee per $ sold, overriding the dated SEC schedule
 }
 
+export interface CommissionTier {
+  upToShares?: number // monthly share volume this rate applies up to; omit on the top tier
+  perShare: number
+}
+
+// Entry filter on an indicator; every configured indicator must pass for a trade to open
+// sma/ema/vwap: close vs the line (default above), rsi: value vs threshold (default below 30)
+// macd: histogram vs threshold (default above 0; period is the signal length)
+// bollinger: close outside the band (default below the lower band; threshold is the width in SDs, default 2)
+// atr: ATR in dollars vs threshold (default above 0)
 export interface TechnicalIndicator {
-  type: 'sma' | 'ema' | 'rsi' | 'macd' | 'bollinger'
+  type: 'sma' | 'ema' | 'rsi' | 'macd' | 'bollinger' | 'vwap' | 'atr'
   period: number
   threshold?: number
+  condition?: 'above' | 'below'
 }
 
 export interface PerformanceMetrics {
@@ -99,6 +189,10 @@ export interface PerformanceMetrics {
   volatility: number
   calmarRatio: number
   sortinoRatio: number
+  longTrades?: number
+  shortTrades?: number
+  longWinRate?: number
+  shortWinRate?: number
 }
 
 export interface BacktestResult {
@@ -111,22 +205,65 @@ export interface BacktestResult {
   equityCurve: EquityPoint[]
   drawdownCurve: DrawdownPoint[]
   monthlyReturns: MonthlyReturn[]
+  fillTiming: FillTiming // execution timing the fills were simulated with
+  latencyCost?: number // dollars lost (or gained, when negative) by delayed market fills versus their decision prices
+  skippedSignals?: SkippedSignalCounts
+  riskEvents?: RiskEvent[]
+}
+
+// Entry signals that were ignored because a trading limit or filter blocked them at the last step
+export interface SkippedSignalCounts {
+  maxDailyTrades: number
+  maxTradesPerSymbol: number // per symbol per day
+  maxPositions: number
+  maxSpread: number // live NBBO spread wider than entryConditions.maxSpread
+}
+
+// A risk limit firing during the simulation
+export interface RiskEvent {
+  type: 'daily_loss_limit' | 'max_drawdown'
+  time: Date
+  equity: number // realized plus unrealized equity when it fired
+  value: number // day loss in dollars, or drawdown percent from the equity peak
+}
+
+// How a bar that touches both the stop and the target is resolved
+export type IntrabarRule = 'pessimistic' | 'optimistic' | 'tick'
+
+export type ExitReason = 'stop_loss' | 'take_profit' | 'time_exit' | 'trailing_stop' | 'kill_switch'
+
+export interface TradeFill {
+  time: Date
+  action: 'entry' | 'exit'
+  price: number
+  quantity: number
+  reason?: ExitReason | 'partial_take_profit' // exit fills only
+  fees?: number // commission plus regulatory fees for this order
+  slippage?: number // estimated slippage cost of this fill in dollars
+  decisionPrice?: number // where the same-bar close would have filled a delayed market order
 }
 
 export interface Trade {
   id: string
   ticker: string
+  side: TradeSide
   entryTime: Date
-  exitTime: Date
+  exitTime: Date // time of the final exit fill
   entryPrice: number
-  exitPrice: number
+  exitPrice: number // quantity-weighted average across exit fills
   quantity: number
   pnl: number
   pnlPercent: number
   fees: number
   slippage: number
-  reason: 'stop_loss' | 'take_profit' | 'time_exit' | 'trailing_stop'
+  reason: ExitReason // reason for the final exit fill
   holdTime: number // minutes
+  stopPrice: number // initial protective stop
+  targetPrice: number // profit target (first target when scaling out)
+  fills: TradeFill[]
+  orders: OrderEvent[] // entry order and attached bracket history, oldest first
+  peakPrice?: number // best price since entry (highest for longs, lowest for shorts)
+  trailingStopPrice?: number // last ratcheted trailing stop level
 }
 
 export interface EquityPoint {